@@ -1,7 +1,42 @@
 #!/usr/bin/env node
 import React from 'react';
 import { render } from 'ink';
-import { App } from './ui/App.js';
+import { EXIT_CODES, UsageError, parseCliArgs, usage, type CliCommand } from './cli/args.js';
+import { GitService } from './git/GitService.js';
+import { loadConfig } from './config/load.js';
+import { ConfigError, type GdtConfig } from './config/schema.js';
+
+// 解析參數：有子命令時不進入 TUI
+let command: CliCommand;
+try {
+    command = parseCliArgs(process.argv.slice(2));
+} catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`gdt: ${error.message}\n\n${usage(error.subcommand)}`);
+    process.exit(EXIT_CODES.usage);
+}
+
+if (command.name === 'help') {
+    process.stdout.write(usage(command.topic));
+    process.exit(EXIT_CODES.ok);
+}
+
+// 載入設定檔（repo 根目錄的 .gdtrc.json 與使用者設定），有誤時在進入 TUI 之前結束
+let config: GdtConfig;
+try {
+    config = await loadConfig(await new GitService({ cwd: process.cwd() }).getRepoRoot());
+} catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    process.stderr.write(`gdt: ${error.message}\n`);
+    process.exit(EXIT_CODES.usage);
+}
+
+if (command.name !== 'tui') {
+    const { runCommand } = await import('./cli/commands.js');
+    process.exit(await runCommand(command, config));
+}
+
+const { App } = await import('./ui/App.js');
 
 // 手動進入 Alternate Screen Buffer
 // 這是 Warp/iTerm2/大部分終端機識別「全螢幕應用」的標準方式
@@ -16,7 +51,7 @@ if (process.stdin.isTTY && process.stdin.setRawMode) {
 }
 
 // 渲染
-const { waitUntilExit, clear } = render(<App />, {
+const { waitUntilExit, clear } = render(<App config={config} />, {
     stdin: process.stdin,
     stdout: process.stdout,
     stderr: process.stderr,
@@ -0,0 +1,91 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UsageError, parseCliArgs } from './args.js';
+
+// 預期拋出 UsageError，並檢查訊息與對應的子命令
+function assertUsageError(argv: string[], message: RegExp, subcommand?: string): void {
+  assert.throws(() => parseCliArgs(argv), (error: unknown) => {
+    assert.ok(error instanceof UsageError);
+    assert.match(error.message, message);
+    assert.equal(error.subcommand, subcommand);
+    return true;
+  });
+}
+
+describe('parseCliArgs', () => {
+  test('starts the TUI without arguments', () => {
+    assert.deepEqual(parseCliArgs([]), { name: 'tui' });
+  });
+
+  test('parses help with an optional topic', () => {
+    assert.deepEqual(parseCliArgs(['--help']), { name: 'help' });
+    assert.deepEqual(parseCliArgs(['-h', 'diff']), { name: 'help', topic: 'diff' });
+    assert.deepEqual(parseCliArgs(['help', 'nope']), { name: 'help' });
+    assert.deepEqual(parseCliArgs(['dump', '--help']), { name: 'help', topic: 'dump' });
+  });
+
+  test('rejects unknown commands', () => {
+    assertUsageError(['export'], /Unknown command: export/);
+  });
+
+  test('parses diff scopes, paths and flags', () => {
+    const command = parseCliArgs(['diff', '--staged', '--with-contents', '--word-diff', 'src', 'README.md']);
+    assert.equal(command.name, 'diff');
+    if (command.name !== 'diff') return;
+    assert.equal(command.scope, 'staged');
+    assert.deepEqual(command.paths, ['src', 'README.md']);
+    assert.equal(command.withContents, true);
+    assert.equal(command.wordDiff, true);
+
+    const defaults = parseCliArgs(['diff']);
+    assert.ok(defaults.name === 'diff');
+    assert.equal(defaults.scope, 'all');
+    assert.deepEqual(defaults.paths, []);
+    assert.equal(defaults.withContents, false);
+    assert.equal(defaults.wordDiff, false);
+  });
+
+  test('rejects combined diff scopes', () => {
+    assertUsageError(['diff', '--staged', '--unstaged'], /--staged and --unstaged cannot be combined/, 'diff');
+  });
+
+  test('parses the output and format options', () => {
+    const command = parseCliArgs(['overview', '-o', 'out.md', '--format', 'markdown']);
+    assert.ok(command.name === 'overview');
+    assert.equal(command.output, 'out.md');
+    assert.equal(command.format, 'markdown');
+
+    const dump = parseCliArgs(['dump', '-m', 'flat', '-f', 'json']);
+    assert.ok(dump.name === 'dump');
+    assert.equal(dump.mode, 'flat');
+    assert.equal(dump.format, 'json');
+  });
+
+  test('parses --copy and rejects it together with --output', () => {
+    const command = parseCliArgs(['diff', '-c']);
+    assert.ok(command.name === 'diff');
+    assert.equal(command.copy, true);
+    assert.equal(command.output, undefined);
+    assertUsageError(['overview', '--copy', '-o', 'x.txt'], /--copy and --output cannot be combined/, 'overview');
+  });
+
+  test('leaves the format and dump mode to the config when omitted', () => {
+    const overview = parseCliArgs(['overview']);
+    assert.ok(overview.name === 'overview');
+    assert.equal(overview.format, undefined);
+
+    const dump = parseCliArgs(['dump']);
+    assert.ok(dump.name === 'dump');
+    assert.equal(dump.mode, undefined);
+  });
+
+  test('rejects invalid option values', () => {
+    assertUsageError(['overview', '-f', 'html'], /Invalid --format: html/, 'overview');
+    assertUsageError(['dump', '--mode', 'deep'], /Invalid --mode: deep/, 'dump');
+  });
+
+  test('reports unknown options as usage errors of the subcommand', () => {
+    assertUsageError(['diff', '--cached'], /--cached/, 'diff');
+    assertUsageError(['overview', '-o'], /-o/, 'overview');
+  });
+});
@@ -0,0 +1,239 @@
+import { parseArgs } from 'node:util';
+import type { DumpMode } from '../export/codebase.js';
+import { EXPORT_FORMATS, type ExportFormat } from '../export/format.js';
+
+// 結束代碼：給 Makefile / git hook / CI 判斷結果
+export const EXIT_CODES = {
+  ok: 0,
+  failure: 1,     // git 或寫入失敗
+  usage: 2,       // 參數或設定檔錯誤
+  noChanges: 3,   // 沒有符合的變更可以匯出
+} as const;
+
+// 參數錯誤（結束代碼 2，並顯示用法）
+export class UsageError extends Error {
+  constructor(message: string, readonly subcommand?: Subcommand) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const SUBCOMMANDS = ['diff', 'overview', 'dump'] as const;
+export type Subcommand = typeof SUBCOMMANDS[number];
+
+// diff 的範圍：暫存區 / 工作區（含 untracked） / 兩者
+export type DiffScope = 'staged' | 'unstaged' | 'all';
+
+export type CliCommand =
+  | { name: 'tui' }
+  | { name: 'help'; topic?: Subcommand }
+  | {
+    name: 'diff';
+    scope: DiffScope;
+    paths: string[];        // 只匯出這些檔案或目錄之下的變更；空陣列為全部
+    output?: string;        // "-" 為 stdout
+    copy: boolean;          // 複製到剪貼簿而不寫入
+    format?: ExportFormat;  // 未指定時使用設定檔的 format
+    withContents: boolean;
+    wordDiff: boolean;
+  }
+  | { name: 'overview'; output?: string; copy: boolean; format?: ExportFormat }
+  | { name: 'dump'; mode?: DumpMode; output?: string; copy: boolean; format?: ExportFormat };
+
+const USAGE = `Usage: gdt [command] [options]
+
+Without a command, starts the interactive TUI.
+
+Commands:
+  diff       Export diffs of changed files
+  overview   Export the file overview (paths and sizes)
+  dump       Dump the whole codebase into a directory
+
+Options:
+  -h, --help   Show help (gdt <command> --help for command options)
+
+Exports are written to stdout unless -o or --copy is given (dump writes a
+directory by default). Status messages go to stderr.
+
+Defaults come from .gdtrc.json in the repository root, merged over
+~/.config/gdt/config.json.
+
+Exit codes:
+  0  success
+  1  export failed (git error, write error)
+  2  invalid arguments or config file
+  3  nothing to export
+`;
+
+const COMMAND_USAGE: Record<Subcommand, string> = {
+  diff: `Usage: gdt diff [--staged | --unstaged | --all] [options] [paths...]
+
+Export the diffs of changed files as one document. Paths limit the export to
+those files or directories.
+
+Options:
+  --staged              Only staged changes
+  --unstaged            Only unstaged changes (including untracked files)
+  --all                 Staged and unstaged changes (default)
+  -o, --output <path>   Output file, or a directory for a timestamped file (default: stdout)
+  -c, --copy            Copy to the clipboard instead
+  -f, --format <fmt>    ${EXPORT_FORMATS.join(' | ')} (default: text, or "format" in the config)
+  --with-contents       Append each file's full current contents after its diff
+  --word-diff           Export word diffs ([-old-]{+new+})
+  -h, --help            Show this help
+`,
+  overview: `Usage: gdt overview [options]
+
+Export every file in the repository (tracked and untracked) with its size.
+
+Options:
+  -o, --output <path>   Output file, or a directory for a timestamped file (default: stdout)
+  -c, --copy            Copy to the clipboard instead
+  -f, --format <fmt>    ${EXPORT_FORMATS.join(' | ')} (default: text, or "format" in the config)
+  -h, --help            Show this help
+`,
+  dump: `Usage: gdt dump [options]
+
+Dump the whole codebase, merging C++ header/source pairs.
+
+Options:
+  -m, --mode <mode>     tree | flat (default: tree, or "dumpMode" in the config)
+  -o, --output <dir>    Output directory (default: <exportDir>/code_dump_YYYYMMDD_HHMMSS);
+                        "-" writes all files as one document to stdout
+  -c, --copy            Copy all files as one document to the clipboard
+  -f, --format <fmt>    ${EXPORT_FORMATS.join(' | ')} (default: text, or "format" in the config)
+  -h, --help            Show this help
+`,
+};
+
+/**
+ * 說明文字（沒有指定子命令時為總覽）
+ */
+export function usage(topic?: Subcommand): string {
+  return topic ? COMMAND_USAGE[topic] : USAGE;
+}
+
+// 所有子命令共用的選項
+const COMMON_OPTIONS = {
+  output: { type: 'string', short: 'o' },
+  copy: { type: 'boolean', short: 'c' },
+  format: { type: 'string', short: 'f' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+/**
+ * 解析命令列參數（不含 node 與腳本路徑）
+ */
+export function parseCliArgs(argv: string[]): CliCommand {
+  const [first, ...rest] = argv;
+  if (first === undefined) return { name: 'tui' };
+
+  if (first === '-h' || first === '--help' || first === 'help') {
+    const topic = rest[0];
+    return { name: 'help', ...(topic !== undefined && isSubcommand(topic) && { topic }) };
+  }
+  if (!isSubcommand(first)) {
+    throw new UsageError(`Unknown command: ${first}`);
+  }
+
+  try {
+    switch (first) {
+      case 'diff':
+        return parseDiff(rest);
+      case 'overview':
+        return parseOverview(rest);
+      case 'dump':
+        return parseDump(rest);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) throw error;
+    // node:util parseArgs 的錯誤（未知選項、缺少值等）
+    throw new UsageError(error instanceof Error ? error.message : String(error), first);
+  }
+}
+
+function parseDiff(args: string[]): CliCommand {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...COMMON_OPTIONS,
+      staged: { type: 'boolean' },
+      unstaged: { type: 'boolean' },
+      all: { type: 'boolean' },
+      'with-contents': { type: 'boolean' },
+      'word-diff': { type: 'boolean' },
+    },
+  });
+  if (values.help) return { name: 'help', topic: 'diff' };
+
+  const scopes = (['staged', 'unstaged', 'all'] as const).filter(scope => values[scope]);
+  if (scopes.length > 1) {
+    throw new UsageError(`--${scopes.join(' and --')} cannot be combined`, 'diff');
+  }
+
+  return {
+    name: 'diff',
+    scope: scopes[0] ?? 'all',
+    paths: positionals,
+    ...parseFormat(values.format, 'diff'),
+    withContents: values['with-contents'] ?? false,
+    wordDiff: values['word-diff'] ?? false,
+    ...parseOutput(values, 'diff'),
+  };
+}
+
+function parseOverview(args: string[]): CliCommand {
+  const { values } = parseArgs({ args, options: COMMON_OPTIONS });
+  if (values.help) return { name: 'help', topic: 'overview' };
+
+  return {
+    name: 'overview',
+    ...parseFormat(values.format, 'overview'),
+    ...parseOutput(values, 'overview'),
+  };
+}
+
+function parseDump(args: string[]): CliCommand {
+  const { values } = parseArgs({
+    args,
+    options: {
+      ...COMMON_OPTIONS,
+      mode: { type: 'string', short: 'm' },
+    },
+  });
+  if (values.help) return { name: 'help', topic: 'dump' };
+
+  const { mode } = values;
+  if (mode !== undefined && mode !== 'tree' && mode !== 'flat') {
+    throw new UsageError(`Invalid --mode: ${mode} (expected tree or flat)`, 'dump');
+  }
+
+  return {
+    name: 'dump',
+    ...(mode !== undefined && { mode }),
+    ...parseFormat(values.format, 'dump'),
+    ...parseOutput(values, 'dump'),
+  };
+}
+
+function parseOutput(values: { output?: string | undefined; copy?: boolean | undefined }, subcommand: Subcommand): { output?: string; copy: boolean } {
+  const copy = values.copy ?? false;
+  if (copy && values.output !== undefined) {
+    throw new UsageError('--copy and --output cannot be combined', subcommand);
+  }
+  return { copy, ...(values.output !== undefined && { output: values.output }) };
+}
+
+function parseFormat(value: string | undefined, subcommand: Subcommand): { format?: ExportFormat } {
+  if (value === undefined) return {};
+  const format = EXPORT_FORMATS.find(f => f === value);
+  if (!format) {
+    throw new UsageError(`Invalid --format: ${value} (expected ${EXPORT_FORMATS.join(', ')})`, subcommand);
+  }
+  return { format };
+}
+
+function isSubcommand(value: string): value is Subcommand {
+  return (SUBCOMMANDS as readonly string[]).includes(value);
+}
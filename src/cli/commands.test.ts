@@ -0,0 +1,74 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { runCommand } from './commands.js';
+import { EXIT_CODES } from './args.js';
+
+// 從子目錄執行：檔案清單相對於 repo 根目錄，讀取時也必須以根目錄為基準
+describe('runCommand from a subdirectory', () => {
+  let repo: string;
+  let sub: string;
+  let out: string;
+
+  before(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'gdt-cli-'));
+    out = fs.mkdtempSync(path.join(os.tmpdir(), 'gdt-out-'));
+    sub = path.join(repo, 'sub');
+    fs.mkdirSync(sub);
+    fs.writeFileSync(path.join(repo, 'root.txt'), 'root\n');
+    fs.writeFileSync(path.join(sub, 'a.txt'), 'hello\n');
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, stdio: 'ignore' });
+    git('init', '-q');
+    git('add', '.');
+    git('-c', 'user.name=test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'init');
+    fs.writeFileSync(path.join(sub, 'a.txt'), 'hello\nworld\n');
+    fs.writeFileSync(path.join(repo, 'root.txt'), 'root\nchanged\n');
+  });
+
+  after(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+    fs.rmSync(out, { recursive: true, force: true });
+  });
+
+  test('overview reports the real file sizes', async () => {
+    const output = path.join(out, 'overview.txt');
+    const code = await runCommand({ name: 'overview', output, copy: false, format: 'text' }, undefined, sub);
+    assert.equal(code, EXIT_CODES.ok);
+
+    const overview = fs.readFileSync(output, 'utf8');
+    assert.match(overview, /a\.txt \(12 B\)/);
+    assert.match(overview, /root\.txt \(13 B\)/);
+  });
+
+  test('dump reads the files from the repo root', async () => {
+    const output = path.join(out, 'dump');
+    const code = await runCommand({ name: 'dump', mode: 'flat', output, copy: false, format: 'text' }, undefined, sub);
+    assert.equal(code, EXIT_CODES.ok);
+
+    const dumped = fs.readdirSync(output).map(name => fs.readFileSync(path.join(output, name), 'utf8')).join('\n');
+    assert.doesNotMatch(dumped, /Error reading file/);
+    assert.match(dumped, /hello\nworld/);
+    assert.match(dumped, new RegExp(`Source Directory: ${fs.realpathSync(repo).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\n`));
+  });
+
+  test('diff path arguments are relative to the current directory', async () => {
+    const output = path.join(out, 'diff.txt');
+    const code = await runCommand({
+      name: 'diff', scope: 'all', paths: ['a.txt'], output, copy: false, format: 'text', withContents: false, wordDiff: false,
+    }, undefined, sub);
+    assert.equal(code, EXIT_CODES.ok);
+
+    const diff = fs.readFileSync(output, 'utf8');
+    assert.match(diff, /sub\/a\.txt/);
+    assert.doesNotMatch(diff, /root\.txt/);
+  });
+
+  test('removes its stdout error listener when done', async () => {
+    const listeners = process.stdout.listenerCount('error');
+    await runCommand({ name: 'overview', output: path.join(out, 'listeners.txt'), copy: false }, undefined, sub);
+    assert.equal(process.stdout.listenerCount('error'), listeners);
+  });
+});
@@ -0,0 +1,189 @@
+import path from 'node:path';
+import { GitService, type DiffTarget } from '../git/GitService.js';
+import type { GitChange, GitChangeStatus, GitStatusCode } from '../git/types.js';
+import { DEFAULT_CONFIG, type GdtConfig } from '../config/schema.js';
+import { filterPaths } from '../config/glob.js';
+import { formatExtension } from '../export/format.js';
+import { exportCodeDump, generateFileOverview, getTimestampedDirName, resolveExportFilePath } from '../export/codebase.js';
+import { writeOutput, type OutputResult, type OutputSink } from '../export/sink.js';
+import { EXIT_CODES, type CliCommand, type DiffScope } from './args.js';
+
+type HeadlessCommand = Exclude<CliCommand, { name: 'tui' } | { name: 'help' }>;
+
+/**
+ * 執行非互動的子命令，回傳結束代碼
+ * 與 TUI 使用相同的 GitService 與匯出函數；匯出內容可能寫到 stdout，狀態訊息一律寫到 stderr
+ * 命令列沒有指定的選項使用設定檔的值
+ */
+export async function runCommand(
+  command: HeadlessCommand,
+  config: GdtConfig = DEFAULT_CONFIG,
+  cwd: string = process.cwd()
+): Promise<number> {
+  // GitService 的路徑都相對於 repo 根目錄，從子目錄執行時也以根目錄建立
+  const git = new GitService({ cwd: await new GitService({ cwd }).getRepoRoot() });
+
+  // 讀取端提早關閉（例如 | head）時不視為錯誤；其他寫入錯誤先記下來，與其他錯誤一樣回報
+  // （在事件處理中拋出會變成未捕捉的例外，略過下面的錯誤處理）
+  let stdoutError: Error | undefined;
+  const onStdoutError = (error: NodeJS.ErrnoException) => {
+    if (error.code !== 'EPIPE') stdoutError ??= error;
+  };
+  process.stdout.on('error', onStdoutError);
+
+  try {
+    const code = await runSubcommand(git, command, config, cwd);
+    if (stdoutError) throw stdoutError;
+    return code;
+  } catch (error) {
+    status(`gdt ${command.name}: ${error instanceof Error ? error.message : error}`);
+    return EXIT_CODES.failure;
+  } finally {
+    process.stdout.off('error', onStdoutError);
+  }
+}
+
+async function runSubcommand(git: GitService, command: HeadlessCommand, config: GdtConfig, cwd: string): Promise<number> {
+  switch (command.name) {
+    case 'diff':
+      return runDiff(git, command, config, cwd);
+    case 'overview':
+      return runOverview(git, command, config, cwd);
+    case 'dump':
+      return runDump(git, command, config, cwd);
+  }
+}
+
+async function runDiff(git: GitService, command: Extract<CliCommand, { name: 'diff' }>, config: GdtConfig, cwd: string): Promise<number> {
+  const changed = filterTargets(await collectDiffTargets(git, command.scope), command.paths, cwd, await git.getRepoRoot());
+  // 設定檔的 include / exclude 與概覽、code dump 相同，也套用到 diff 的檔案
+  const included = new Set(filterPaths(changed.map(target => target.path), config));
+  const targets = changed.filter(target => included.has(target.path));
+  if (targets.length === 0) {
+    status(`gdt diff: no ${command.scope === 'all' ? '' : `${command.scope} `}changes to export`);
+    return EXIT_CODES.noChanges;
+  }
+
+  const format = command.format ?? config.format;
+  const output = await resolveOutput(command, cwd, 'diff', formatExtension(format));
+  const exportOptions = {
+    paths: targets,
+    output,
+    submoduleDiff: true,
+    wordDiff: command.wordDiff,
+    diffOptions: config.diffOptions,
+    format,
+  };
+  const result = command.withContents
+    ? await git.exportDiffsWithContents(exportOptions)
+    : await git.exportMultipleDiffs(exportOptions);
+
+  status(`Exported ${targets.length} file(s) to ${describe(output, result, cwd)}`);
+  return EXIT_CODES.ok;
+}
+
+async function runOverview(git: GitService, command: Extract<CliCommand, { name: 'overview' }>, config: GdtConfig, cwd: string): Promise<number> {
+  const format = command.format ?? config.format;
+  const output = await resolveOutput(command, cwd, 'files_overview', formatExtension(format));
+  const result = await writeOutput(output, await generateFileOverview(git, format, { filter: config }));
+
+  status(`Overview exported to ${describe(output, result, cwd)}`);
+  return EXIT_CODES.ok;
+}
+
+async function runDump(git: GitService, command: Extract<CliCommand, { name: 'dump' }>, config: GdtConfig, cwd: string): Promise<number> {
+  // 指定目錄時直接寫入（方便腳本使用固定路徑）；否則與 TUI 相同，在匯出目錄下建立帶時間戳的目錄
+  // stdout / 剪貼簿：所有檔案合併為單一文件
+  const output: OutputSink = command.copy
+    ? { kind: 'clipboard' }
+    : command.output === '-'
+      ? { kind: 'stdout' }
+      : {
+        kind: 'directory',
+        path: command.output !== undefined
+          ? path.resolve(cwd, command.output)
+          : path.join(config.exportDir, getTimestampedDirName('code_dump')),
+      };
+  const { files, binaries, oversized, result } = await exportCodeDump({
+    git,
+    output,
+    mode: command.mode ?? config.dumpMode,
+    format: command.format ?? config.format,
+    filter: config,
+    maxFileSize: config.maxFileSize,
+  });
+
+  const notes = [
+    ...(binaries.length > 0 ? [`${binaries.length} binary file(s) replaced with placeholders`] : []),
+    ...(oversized.length > 0 ? [`${oversized.length} large file(s) skipped`] : []),
+  ];
+  const skipped = notes.length > 0 ? ` (${notes.join(', ')})` : '';
+  status(`Dumped ${files.size} files to ${describe(output, result, cwd)}${output.kind === 'directory' ? '/' : ''}${skipped}`);
+  return EXIT_CODES.ok;
+}
+
+// 單一文件的輸出位置：--copy 為剪貼簿，沒有 -o 或 "-o -" 為 stdout，否則為檔案（目錄時補上時間戳檔名）
+async function resolveOutput(
+  command: { output?: string; copy: boolean },
+  cwd: string,
+  prefix: string,
+  extension: string
+): Promise<OutputSink> {
+  if (command.copy) return { kind: 'clipboard' };
+  if (command.output === undefined || command.output === '-') return { kind: 'stdout' };
+  return { kind: 'file', path: await resolveExportFilePath(path.resolve(cwd, command.output), prefix, extension) };
+}
+
+// 狀態訊息中的輸出位置
+function describe(output: OutputSink, result: OutputResult, cwd: string): string {
+  switch (output.kind) {
+    case 'stdout':
+      return 'stdout';
+    case 'clipboard':
+      return `clipboard (via ${result.method})${result.warning ? `; warning: ${result.warning}` : ''}`;
+    case 'file':
+    case 'directory':
+      return path.relative(cwd, result.destination) || '.';
+  }
+}
+
+// 狀態與進度訊息寫到 stderr，stdout 只留給匯出內容
+function status(message: string): void {
+  process.stderr.write(`${message}\n`);
+}
+
+// 依範圍列出要匯出的檔案（與 TUI 的暫存區 / 工作區分組相同，衝突檔案不包含在內）
+async function collectDiffTargets(git: GitService, scope: DiffScope): Promise<DiffTarget[]> {
+  const toTarget = (file: GitChange, staged: boolean): DiffTarget => ({
+    path: file.path,
+    staged,
+    status: file.kind === 'untracked' ? file.status : groupStatus(staged ? file.index : file.worktree, file),
+    index: file.index,
+    worktree: file.worktree,
+  });
+
+  const { staged, unstaged } = await git.getChangeGroups();
+  const targets: DiffTarget[] = [];
+  if (scope !== 'unstaged') {
+    targets.push(...staged.map(f => toTarget(f, true)));
+  }
+  if (scope !== 'staged') {
+    targets.push(...unstaged.map(f => toTarget(f, false)));
+  }
+  return targets;
+}
+
+// 暫存區使用 X、工作區使用 Y（與 TUI 的分組狀態相同）
+function groupStatus(code: GitStatusCode, file: GitChange): GitChangeStatus {
+  return code === '.' ? file.status : code;
+}
+
+// 只保留指定的檔案，或指定目錄之下的檔案
+// 參數相對於目前目錄，git status 的路徑相對於 repo 根目錄，比對前先轉換
+function filterTargets(targets: DiffTarget[], paths: string[], cwd: string, repoRoot: string): DiffTarget[] {
+  if (paths.length === 0) return targets;
+  const prefixes = paths.map(p => path.relative(repoRoot, path.resolve(cwd, p)).split(path.sep).join('/'));
+  return targets.filter(target => prefixes.some(prefix =>
+    prefix === '' || target.path === prefix || target.path.startsWith(`${prefix}/`)
+  ));
+}
@@ -0,0 +1,72 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { filterPaths, globToRegExp, hasUnmatchedBraces } from './glob.js';
+
+describe('globToRegExp', () => {
+  // [pattern, 符合的路徑, 不符合的路徑]
+  const cases: Array<[string, string[], string[]]> = [
+    ['*.md', ['README.md', 'docs/guide.md'], ['README.mdx', 'md']],
+    ['src/*.ts', ['src/a.ts'], ['src/ui/a.ts', 'lib/src/a.ts']],
+    ['src/**', ['src/a.ts', 'src/ui/deep/b.tsx'], ['srcx/a.ts', 'lib/src/a.ts']],
+    ['**/*.snap', ['a.snap', 'x/y/a.snap'], ['a.snap.txt']],
+    ['src/**/test.ts', ['src/test.ts', 'src/a/b/test.ts'], ['test.ts']],
+    ['/README.md', ['README.md'], ['docs/README.md']],
+    ['./src/a.ts', ['src/a.ts'], ['lib/src/a.ts']],
+    ['vendor/', ['vendor/a.js', 'lib/vendor/b/c.js'], ['vendor.js']],
+    ['docs', ['docs', 'docs/a.md', 'x/docs/b.md'], ['docs.md']],
+    ['file?.txt', ['file1.txt'], ['file12.txt', 'file/.txt']],
+    ['*.{ts,tsx}', ['a.ts', 'b/c.tsx'], ['a.js']],
+    ['src/{ui,git}/*.ts', ['src/ui/a.ts', 'src/git/b.ts'], ['src/cli/a.ts']],
+    ['a+b(1).txt', ['a+b(1).txt'], ['aab1.txt']],
+    ['src\\*.ts', ['src/a.ts'], ['a.ts']],
+    // 沒有配對的大括號視為一般字元
+    ['src/{a,b', ['src/{a,b'], ['src/a']],
+    ['a}b.txt', ['a}b.txt'], ['ab.txt']],
+    ['{a,b}}', ['a}', 'b}'], ['a', 'b']],
+  ];
+
+  for (const [pattern, matches, misses] of cases) {
+    test(pattern, () => {
+      const re = globToRegExp(pattern);
+      for (const p of matches) assert.ok(re.test(p), `${pattern} should match ${p}`);
+      for (const p of misses) assert.ok(!re.test(p), `${pattern} should not match ${p}`);
+    });
+  }
+});
+
+describe('hasUnmatchedBraces', () => {
+  const cases: Array<[string, boolean]> = [
+    ['src/**', false],
+    ['*.{ts,tsx}', false],
+    ['{a,{b,c}}', false],
+    ['src/{a,b', true],
+    ['a}b', true],
+    ['{a}}', true],
+  ];
+  for (const [pattern, expected] of cases) {
+    test(pattern, () => assert.equal(hasUnmatchedBraces(pattern), expected));
+  }
+});
+
+describe('filterPaths', () => {
+  const paths = ['README.md', 'src/a.ts', 'src/a.test.ts', 'src/ui/b.tsx', 'vendor/lib.js'];
+
+  test('returns every path without include or exclude', () => {
+    assert.deepEqual(filterPaths(paths, { include: [], exclude: [] }), paths);
+  });
+
+  test('keeps only included paths', () => {
+    assert.deepEqual(filterPaths(paths, { include: ['src/**'], exclude: [] }), ['src/a.ts', 'src/a.test.ts', 'src/ui/b.tsx']);
+  });
+
+  test('exclude wins over include', () => {
+    assert.deepEqual(
+      filterPaths(paths, { include: ['src/**', '*.md'], exclude: ['*.test.ts'] }),
+      ['README.md', 'src/a.ts', 'src/ui/b.tsx']
+    );
+  });
+
+  test('does not throw on unmatched braces', () => {
+    assert.deepEqual(filterPaths(paths, { include: ['src/{a,b'], exclude: [] }), []);
+  });
+});
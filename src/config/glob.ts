@@ -0,0 +1,88 @@
+// 檔案篩選：include 為空時包含所有檔案，exclude 優先
+export type FileFilter = {
+  include: string[];
+  exclude: string[];
+};
+
+/**
+ * 將 glob 轉為正規表示式
+ * - `**` 跨目錄，`*` 與 `?` 不跨目錄，`{a,b}` 為擇一（沒有配對的大括號視為一般字元）
+ * - 不含 `/` 的 pattern 比對任何一層的名稱（與 .gitignore 相同）
+ * - 以 `/` 結尾的 pattern 比對目錄之下的所有檔案
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  // 結尾的 "/" 不算在內（與 .gitignore 相同，"vendor/" 比對任何一層的 vendor 目錄）
+  const anchored = glob.startsWith('/') || glob.slice(0, -1).includes('/');
+  if (glob.endsWith('/')) glob += '**';
+  glob = glob.replace(/^\//, '');
+
+  const braces = matchBraces(glob);
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" 可以比對零層目錄
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && braces.has(i)) {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braces.has(i)) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+
+  // 目錄名稱的 pattern 也比對其下的所有檔案
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}(?:/.*)?$`);
+}
+
+/**
+ * pattern 中是否有沒有配對的大括號（多半是打錯字，設定檔驗證時回報）
+ */
+export function hasUnmatchedBraces(pattern: string): boolean {
+  const braceCount = [...pattern].filter(char => char === '{' || char === '}').length;
+  return matchBraces(pattern).size !== braceCount;
+}
+
+// 成對的大括號位置（"{" 與 "}" 的位置都會加入）
+function matchBraces(glob: string): Set<number> {
+  const matched = new Set<number>();
+  const open: number[] = [];
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] === '{') {
+      open.push(i);
+    } else if (glob[i] === '}' && open.length > 0) {
+      matched.add(open.pop()!);
+      matched.add(i);
+    }
+  }
+  return matched;
+}
+
+/**
+ * 依 include / exclude 篩選路徑（相對於 repo 根目錄）
+ */
+export function filterPaths(paths: string[], filter: FileFilter): string[] {
+  if (filter.include.length === 0 && filter.exclude.length === 0) return paths;
+  const include = filter.include.map(globToRegExp);
+  const exclude = filter.exclude.map(globToRegExp);
+  return paths.filter(p =>
+    (include.length === 0 || include.some(re => re.test(p))) && !exclude.some(re => re.test(p))
+  );
+}
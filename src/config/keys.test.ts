@@ -0,0 +1,43 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findKeyConflicts, normalizeKey } from './keys.js';
+
+describe('normalizeKey', () => {
+  const cases: Array<[string, string | null]> = [
+    ['k', 'k'],
+    ['K', 'K'],
+    [' ', 'space'],
+    ['Space', 'space'],
+    ['Ctrl+P', 'ctrl+p'],
+    ['ctrl-x', 'ctrl+x'],
+    ['ctrl+1', null],
+    ['PgDn', 'pagedown'],
+    ['Return', 'enter'],
+    ['del', 'delete'],
+    ['Esc', null],
+    ['escape', null],
+    ['f1', null],
+    ['', null],
+  ];
+  for (const [name, expected] of cases) {
+    test(`${JSON.stringify(name)} → ${expected}`, () => assert.equal(normalizeKey(name), expected));
+  }
+});
+
+describe('findKeyConflicts', () => {
+  test('finds no conflicts in the default keys', () => {
+    assert.deepEqual(findKeyConflicts(), []);
+  });
+
+  test('reports keys bound to more than one action', () => {
+    assert.deepEqual(findKeyConflicts({ refresh: ['q'] }), ['key "q" is bound to both "refresh" and "quit"']);
+    assert.deepEqual(findKeyConflicts({ up: ['x'], down: ['x'], quit: ['x'] }), [
+      'key "x" is bound to both "up" and "down" and "quit"',
+    ]);
+  });
+
+  test('frees a default key when its action is rebound or unbound', () => {
+    assert.deepEqual(findKeyConflicts({ quit: ['Q'], refresh: ['q'] }), []);
+    assert.deepEqual(findKeyConflicts({ quit: [], help: ['q'] }), []);
+  });
+});
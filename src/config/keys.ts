@@ -0,0 +1,111 @@
+// 瀏覽模式下的所有動作（設定檔 keys 的欄位名稱）
+export type ActionId =
+  | 'up'
+  | 'down'
+  | 'pageUp'
+  | 'pageDown'
+  | 'home'
+  | 'end'
+  | 'switchFocus'
+  | 'toggleSelect'
+  | 'selectAll'
+  | 'toggleDirectory'
+  | 'toggleViewMode'
+  | 'toggleLayout'
+  | 'cycleConflictView'
+  | 'toggleSubmoduleDiff'
+  | 'toggleWordDiff'
+  | 'diffOptions'
+  | 'logMode'
+  | 'stashMode'
+  | 'compareBase'
+  | 'endCompare'
+  | 'exportCurrent'
+  | 'copyCurrent'
+  | 'exportSelected'
+  | 'exportOverview'
+  | 'exportOverviewTo'
+  | 'exportCodeDump'
+  | 'exportConflicts'
+  | 'refresh'
+  | 'commandPalette'
+  | 'help'
+  | 'quit';
+
+// 各動作的預設按鍵（順序與 ui/keymap.ts 的動作登錄表相同，衝突時以較前面的動作為準）
+export const DEFAULT_KEYS: Record<ActionId, string[]> = {
+  up: ['up', 'k'],
+  down: ['down', 'j'],
+  pageUp: ['pageup'],
+  pageDown: ['pagedown'],
+  home: ['home'],
+  end: ['end'],
+  switchFocus: ['tab'],
+  toggleSelect: ['space'],
+  selectAll: ['a'],
+  toggleDirectory: ['enter'],
+  toggleViewMode: ['/'],
+  toggleLayout: ['v'],
+  cycleConflictView: ['c'],
+  toggleSubmoduleDiff: ['m'],
+  toggleWordDiff: ['w'],
+  diffOptions: ['o'],
+  logMode: ['l'],
+  stashMode: ['s'],
+  compareBase: ['b'],
+  endCompare: ['B'],
+  exportCurrent: ['e'],
+  copyCurrent: ['y'],
+  exportSelected: ['E'],
+  exportOverview: ['f'],
+  exportOverviewTo: ['F'],
+  exportCodeDump: ['D'],
+  exportConflicts: ['C'],
+  refresh: ['r'],
+  commandPalette: [':', 'ctrl+p'],
+  help: ['?'],
+  quit: ['q'],
+};
+
+export const ACTION_IDS = Object.keys(DEFAULT_KEYS) as ActionId[];
+
+// 設定檔中的按鍵覆寫：動作 → 按鍵（空陣列為取消綁定）
+export type KeyOverrides = Partial<Record<ActionId, string[]>>;
+
+// 有名稱的按鍵（其餘為單一字元，大小寫不同）
+const NAMED_KEYS = ['up', 'down', 'left', 'right', 'pageup', 'pagedown', 'home', 'end', 'tab', 'enter', 'space', 'backspace', 'delete'];
+
+// 保留給對話框與面板使用，不能綁定
+const RESERVED_KEYS = ['escape'];
+
+/**
+ * 將按鍵名稱正規化（例如 "Ctrl+P" → "ctrl+p"、"PgDn" → "pagedown"），不合法時回傳 null
+ */
+export function normalizeKey(name: string): string | null {
+  if (name.length === 1) return name === ' ' ? 'space' : name;
+
+  const lower = name.toLowerCase();
+  const ctrl = /^ctrl[+-](.)$/.exec(lower);
+  if (ctrl) return /^[a-z]$/.test(ctrl[1]!) ? `ctrl+${ctrl[1]}` : null;
+
+  const aliases: Record<string, string> = { pgup: 'pageup', pgdn: 'pagedown', return: 'enter', esc: 'escape', del: 'delete' };
+  const key = aliases[lower] ?? lower;
+  if (RESERVED_KEYS.includes(key)) return null;
+  return NAMED_KEYS.includes(key) ? key : null;
+}
+
+/**
+ * 套用覆寫後，同一個按鍵綁定到多個動作的衝突（回傳說明文字）
+ */
+export function findKeyConflicts(overrides: KeyOverrides = {}): string[] {
+  const owners = new Map<string, ActionId[]>();
+  for (const id of ACTION_IDS) {
+    for (const key of overrides[id] ?? DEFAULT_KEYS[id]) {
+      owners.set(key, [...(owners.get(key) ?? []), id]);
+    }
+  }
+
+  return [...owners]
+    .filter(([, actions]) => actions.length > 1)
+    .map(([key, actions]) => `key "${key}" is bound to both ${actions.map(id => `"${id}"`).join(' and ')}`);
+}
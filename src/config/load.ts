@@ -0,0 +1,69 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { findKeyConflicts } from './keys.js';
+import { ConfigError, DEFAULT_CONFIG, mergeConfig, validateConfig, type GdtConfig, type PartialConfig } from './schema.js';
+
+// repo 內的設定檔名稱（放在 repo 根目錄，可以 commit 給整個團隊使用）
+export const PROJECT_CONFIG_FILE = '.gdtrc.json';
+
+/**
+ * 使用者設定檔的路徑：$XDG_CONFIG_HOME/gdt/config.json（預設 ~/.config/gdt/config.json）
+ */
+export function userConfigPath(): string {
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, 'gdt', 'config.json');
+}
+
+/**
+ * 載入設定：預設值 ← 使用者設定 ← repo 的 .gdtrc.json
+ * 檔案不存在時略過；JSON 格式或欄位有誤時拋出 ConfigError
+ */
+export async function loadConfig(repoRoot: string): Promise<GdtConfig> {
+  const layers: PartialConfig[] = [];
+  let keysFile: string | null = null;
+  for (const file of [userConfigPath(), path.join(repoRoot, PROJECT_CONFIG_FILE)]) {
+    const layer = await readConfigFile(file);
+    if (!layer) continue;
+    layers.push(layer);
+    if (layer.keys) keysFile = file;
+  }
+
+  const config = mergeConfig(DEFAULT_CONFIG, ...layers);
+  // 各檔案本身沒有衝突，但使用者設定與專案設定的按鍵合併後可能衝突
+  const conflicts = findKeyConflicts(config.keys);
+  if (keysFile && conflicts.length > 0) {
+    throw new ConfigError(keysFile, conflicts.map(conflict => `"keys" (merged with the other config file): ${conflict}`));
+  }
+
+  // 匯出目錄與詞表以 repo 根目錄為基準，與從哪個子目錄啟動無關
+  return {
+    ...config,
+    exportDir: resolvePath(repoRoot, config.exportDir),
+    bpeVocab: config.bpeVocab === null ? null : resolvePath(repoRoot, config.bpeVocab),
+  };
+}
+
+// 設定檔中的路徑：~/ 開頭時以家目錄為基準，其餘相對路徑以 repo 根目錄為基準
+function resolvePath(repoRoot: string, value: string): string {
+  if (value === '~' || value.startsWith('~/')) return path.join(os.homedir(), value.slice(1));
+  return path.resolve(repoRoot, value);
+}
+
+async function readConfigFile(file: string): Promise<PartialConfig | null> {
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new ConfigError(file, [`cannot read the file: ${error}`]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(file, [`not valid JSON: ${error instanceof Error ? error.message : error}`]);
+  }
+  return validateConfig(raw, file);
+}
@@ -0,0 +1,116 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigError, DEFAULT_CONFIG, mergeConfig, validateConfig } from './schema.js';
+
+// 預期拋出 ConfigError，回傳問題清單
+function issuesOf(raw: unknown): string[] {
+  try {
+    validateConfig(raw, '.gdtrc.json');
+  } catch (error) {
+    assert.ok(error instanceof ConfigError);
+    assert.equal(error.file, '.gdtrc.json');
+    return error.issues;
+  }
+  assert.fail('expected a ConfigError');
+}
+
+describe('validateConfig', () => {
+  test('accepts a valid config and converts sizes', () => {
+    const config = validateConfig({
+      $schema: './gdt.schema.json',
+      exportDir: 'exports',
+      format: 'markdown',
+      include: ['src/**', '*.{md,txt}'],
+      tokenBudget: null,
+      tokenizer: 'bpe',
+      maxFileSize: '1.5KB',
+      diffOptions: { contextLines: 5, algorithm: 'patience' },
+    }, '.gdtrc.json');
+    assert.deepEqual(config, {
+      exportDir: 'exports',
+      format: 'markdown',
+      include: ['src/**', '*.{md,txt}'],
+      tokenBudget: null,
+      tokenizer: 'bpe',
+      maxFileSize: 1536,
+      diffOptions: { contextLines: 5, algorithm: 'patience' },
+    });
+  });
+
+  test('requires a JSON object', () => {
+    assert.deepEqual(issuesOf([]), ['the config must be a JSON object']);
+    assert.deepEqual(issuesOf(null), ['the config must be a JSON object']);
+  });
+
+  test('reports every invalid field', () => {
+    assert.deepEqual(issuesOf({
+      format: 'html',
+      viewMode: 'grid',
+      exportDir: '  ',
+      include: ['ok', 1],
+      tokenBudget: 0,
+      maxFileSize: 'big',
+    }), [
+      '"format" must be one of "text", "markdown", "xml", "json" (got "html")',
+      '"viewMode" must be one of "flat", "tree" (got "grid")',
+      '"exportDir" must be a non-empty string (got "  ")',
+      '"include" must be an array of non-empty strings (got ["ok",1])',
+      `"tokenBudget" must be an integer from 1 to ${Number.MAX_SAFE_INTEGER} (got 0)`,
+      '"maxFileSize" must be a positive number of bytes or a size such as "512KB" or "2MB" (got "big")',
+    ]);
+  });
+
+  test('rejects glob patterns with unmatched braces', () => {
+    assert.deepEqual(issuesOf({ exclude: ['src/{a,b'] }), [
+      '"exclude" has a pattern with an unmatched brace: "src/{a,b" (got ["src/{a,b"])',
+    ]);
+  });
+
+  test('validates nested diff options', () => {
+    assert.deepEqual(issuesOf({ diffOptions: { contextLines: -1, ignoreAllSpace: 'yes' } }), [
+      '"diffOptions.contextLines" must be an integer from 0 to 999 (got -1)',
+      '"diffOptions.ignoreAllSpace" must be true or false (got "yes")',
+    ]);
+    assert.deepEqual(issuesOf({ diffOptions: 3 }), ['"diffOptions" must be an object']);
+  });
+
+  test('suggests the closest key for typos', () => {
+    assert.deepEqual(issuesOf({ exportdir: '.' }), ['unknown key "exportdir" (did you mean "exportDir"?)']);
+    assert.deepEqual(issuesOf({ diffOptions: { contextLine: 3 } }), [
+      'unknown key "diffOptions.contextLine" (did you mean "diffOptions.contextLines"?)',
+    ]);
+    assert.match(issuesOf({ colors: true })[0] ?? '', /^unknown key "colors" \(valid keys: exportDir, format, /);
+  });
+
+  test('normalizes key overrides', () => {
+    const config = validateConfig({ keys: { quit: 'Ctrl+Q', refresh: ['R', 'ctrl+r'], help: [] } }, '.gdtrc.json');
+    assert.deepEqual(config.keys, { quit: ['ctrl+q'], refresh: ['R', 'ctrl+r'], help: [] });
+  });
+
+  test('rejects unknown keys, actions and conflicts', () => {
+    assert.deepEqual(issuesOf({ keys: { quit: 'f1', refresh: 42 } }), [
+      '"keys.quit" has an unknown key "f1" (use a single character, "ctrl+<letter>", or a key name such as "enter", "tab", "space", "pagedown") (got "f1")',
+      '"keys.refresh" must be a key or an array of keys (got 42)',
+    ]);
+    assert.deepEqual(issuesOf({ keys: { exit: 'x' } }), ['unknown key "keys.exit" (did you mean "keys.quit"?)']);
+    assert.deepEqual(issuesOf({ keys: { refresh: 'q' } }), ['"keys": key "q" is bound to both "refresh" and "quit"']);
+  });
+});
+
+describe('mergeConfig', () => {
+  test('later layers win and diff options merge per entry', () => {
+    const merged = mergeConfig(
+      DEFAULT_CONFIG,
+      { format: 'xml', include: ['src/**'], diffOptions: { contextLines: 10 } },
+      { format: 'json', include: ['lib/**'], diffOptions: { ignoreAllSpace: true } }
+    );
+    assert.equal(merged.format, 'json');
+    assert.deepEqual(merged.include, ['lib/**']);
+    assert.deepEqual(merged.diffOptions, { ...DEFAULT_CONFIG.diffOptions, contextLines: 10, ignoreAllSpace: true });
+    assert.equal(merged.exportDir, DEFAULT_CONFIG.exportDir);
+  });
+
+  test('returns the base without layers', () => {
+    assert.deepEqual(mergeConfig(DEFAULT_CONFIG), DEFAULT_CONFIG);
+  });
+});
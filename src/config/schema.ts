@@ -0,0 +1,262 @@
+import { DEFAULT_DIFF_OPTIONS, DIFF_ALGORITHMS } from '../git/diffOptions.js';
+import type { DiffOptions } from '../git/types.js';
+import { EXPORT_FORMATS, type ExportFormat } from '../export/format.js';
+import { hasUnmatchedBraces } from './glob.js';
+import type { TokenizerKind } from '../tokens/tokenizer.js';
+import { ACTION_IDS, findKeyConflicts, normalizeKey, type KeyOverrides } from './keys.js';
+
+// 設定檔的完整內容（所有欄位都有值；未設定的欄位使用 DEFAULT_CONFIG）
+export type GdtConfig = {
+  exportDir: string;              // 匯出的預設目錄（相對路徑以 repo 根目錄為基準）
+  format: ExportFormat;           // 預設匯出格式
+  viewMode: 'flat' | 'tree';      // 檔案列表的顯示模式
+  dumpMode: 'tree' | 'flat';      // code dump 的輸出模式
+  diffOptions: DiffOptions;
+  include: string[];              // 概覽、code dump 與 gdt diff 只包含符合的檔案（空陣列為全部）
+  exclude: string[];              // 概覽、code dump 與 gdt diff 排除的檔案（優先於 include）
+  tokenBudget: number | null;     // 匯出的 token 預算（null 為不限制）
+  tokenizer: TokenizerKind;       // token 估算方式
+  bpeVocab: string | null;        // BPE 詞表（tiktoken 格式）的路徑，tokenizer 為 bpe 時使用（null 為附帶的 cl100k_base）
+  maxFileSize: number | null;     // code dump 中超過此大小（bytes）的檔案改為單行說明（null 為不限制）
+  keys: KeyOverrides;             // 按鍵覆寫：動作 → 按鍵（取代該動作的預設按鍵）
+};
+
+// 設定檔中的內容：所有欄位皆可省略，diffOptions 可以只設定部分選項
+export type PartialConfig = Partial<Omit<GdtConfig, 'diffOptions'>> & {
+  diffOptions?: Partial<DiffOptions>;
+};
+
+export const DEFAULT_CONFIG: GdtConfig = {
+  exportDir: '.',
+  format: 'text',
+  viewMode: 'flat',
+  dumpMode: 'tree',
+  diffOptions: DEFAULT_DIFF_OPTIONS,
+  include: [],
+  exclude: [],
+  tokenBudget: null,
+  tokenizer: 'chars',
+  bpeVocab: null,
+  maxFileSize: null,
+  keys: {},
+};
+
+// 設定檔有誤：列出所有問題
+export class ConfigError extends Error {
+  constructor(readonly file: string, readonly issues: string[]) {
+    super(`Invalid config file ${file}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// 單一欄位的值不合法（message 接在欄位名稱之後，例如 "must be true or false"）
+class ValidationIssue extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationIssue';
+  }
+}
+
+// 欄位驗證：回傳轉換後的值，不合法時拋出 ValidationIssue
+type Validator<T> = (value: unknown) => T;
+
+const oneOf = <T extends string>(values: readonly T[]): Validator<T> => value => {
+  const match = values.find(v => v === value);
+  if (match === undefined) throw new ValidationIssue(`must be one of ${values.map(v => `"${v}"`).join(', ')}`);
+  return match;
+};
+
+const nonEmptyString: Validator<string> = value => {
+  if (typeof value !== 'string' || value.trim() === '') throw new ValidationIssue('must be a non-empty string');
+  return value;
+};
+
+const stringList: Validator<string[]> = value => {
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || v === '')) {
+    throw new ValidationIssue('must be an array of non-empty strings');
+  }
+  return value as string[];
+};
+
+// glob 清單：大括號必須成對
+const globList: Validator<string[]> = value => {
+  const patterns = stringList(value);
+  const broken = patterns.find(hasUnmatchedBraces);
+  if (broken !== undefined) throw new ValidationIssue(`has a pattern with an unmatched brace: "${broken}"`);
+  return patterns;
+};
+
+const boolean: Validator<boolean> = value => {
+  if (typeof value !== 'boolean') throw new ValidationIssue('must be true or false');
+  return value;
+};
+
+const integer = (min: number, max: number): Validator<number> => value => {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new ValidationIssue(`must be an integer from ${min} to ${max}`);
+  }
+  return value;
+};
+
+const nullable = <T>(validator: Validator<T>): Validator<T | null> => value => value === null ? null : validator(value);
+
+// 大小：bytes 數字，或 "512KB" / "1.5MB" 這類字串
+const SIZE_UNITS: Record<string, number> = { B: 1, KB: 1024, MB: 1024 ** 2, GB: 1024 ** 3 };
+const size: Validator<number> = value => {
+  if (typeof value === 'number' && Number.isInteger(value) && value > 0) return value;
+  const match = typeof value === 'string' ? /^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?$/i.exec(value.trim()) : null;
+  if (!match) throw new ValidationIssue('must be a positive number of bytes or a size such as "512KB" or "2MB"');
+  return Math.round(Number(match[1]) * SIZE_UNITS[(match[2] ?? 'B').toUpperCase()]!);
+};
+
+const DIFF_OPTION_FIELDS: { [K in keyof DiffOptions]: Validator<DiffOptions[K]> } = {
+  contextLines: integer(0, 999),
+  ignoreAllSpace: boolean,
+  ignoreBlankLines: boolean,
+  functionContext: boolean,
+  algorithm: oneOf(DIFF_ALGORITHMS),
+  renameThreshold: nullable(integer(0, 100)),
+};
+
+// 按鍵：單一按鍵或按鍵陣列（空陣列為取消綁定）
+const keyList: Validator<string[]> = value => {
+  const names = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(names) || names.some(name => typeof name !== 'string')) {
+    throw new ValidationIssue('must be a key or an array of keys');
+  }
+  return names.map(name => {
+    const key = normalizeKey(name);
+    if (key === null) throw new ValidationIssue(`has an unknown key "${name}" (use a single character, "ctrl+<letter>", or a key name such as "enter", "tab", "space", "pagedown")`);
+    return key;
+  });
+};
+
+const KEY_FIELDS = Object.fromEntries(ACTION_IDS.map(id => [id, keyList])) as Record<string, Validator<string[]>>;
+
+const CONFIG_FIELDS: { [K in Exclude<keyof GdtConfig, 'diffOptions' | 'keys'>]: Validator<GdtConfig[K]> } = {
+  exportDir: nonEmptyString,
+  format: oneOf(EXPORT_FORMATS),
+  viewMode: oneOf(['flat', 'tree'] as const),
+  dumpMode: oneOf(['tree', 'flat'] as const),
+  include: globList,
+  exclude: globList,
+  tokenBudget: nullable(integer(1, Number.MAX_SAFE_INTEGER)),
+  tokenizer: oneOf(['chars', 'bpe'] as const),
+  bpeVocab: nullable(nonEmptyString),
+  maxFileSize: nullable(size),
+};
+
+/**
+ * 驗證設定檔內容（JSON.parse 的結果），有任何問題時拋出 ConfigError
+ */
+export function validateConfig(raw: unknown, file: string): PartialConfig {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ConfigError(file, ['the config must be a JSON object']);
+  }
+
+  const issues: string[] = [];
+  const config: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    // 編輯器用的 JSON schema 參照
+    if (key === '$schema') continue;
+
+    if (key === 'diffOptions') {
+      const options = validateFields(value, DIFF_OPTION_FIELDS, 'diffOptions', issues);
+      if (options) config.diffOptions = options;
+      continue;
+    }
+
+    if (key === 'keys') {
+      const keys = validateFields(value, KEY_FIELDS, 'keys', issues);
+      if (keys) {
+        issues.push(...findKeyConflicts(keys).map(conflict => `"keys": ${conflict}`));
+        config.keys = keys;
+      }
+      continue;
+    }
+
+    const validator = CONFIG_FIELDS[key as keyof typeof CONFIG_FIELDS];
+    if (!validator) {
+      issues.push(unknownKey(key, [...Object.keys(CONFIG_FIELDS), 'diffOptions', 'keys']));
+      continue;
+    }
+    try {
+      config[key] = validator(value);
+    } catch (error) {
+      if (!(error instanceof ValidationIssue)) throw error;
+      issues.push(`"${key}" ${error.message} (got ${JSON.stringify(value)})`);
+    }
+  }
+
+  if (issues.length > 0) throw new ConfigError(file, issues);
+  return config as PartialConfig;
+}
+
+/**
+ * 依序合併設定（後面的優先；diffOptions 與 keys 逐項合併，陣列整個取代）
+ */
+export function mergeConfig(base: GdtConfig, ...layers: PartialConfig[]): GdtConfig {
+  return layers.reduce<GdtConfig>((merged, layer) => ({
+    ...merged,
+    ...layer,
+    diffOptions: { ...merged.diffOptions, ...layer.diffOptions },
+    keys: { ...merged.keys, ...layer.keys },
+  }), base);
+}
+
+// 巢狀物件的欄位驗證
+function validateFields(
+  value: unknown,
+  fields: Record<string, Validator<unknown>>,
+  prefix: string,
+  issues: string[]
+): Record<string, unknown> | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push(`"${prefix}" must be an object`);
+    return null;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const validator = fields[key];
+    if (!validator) {
+      issues.push(unknownKey(`${prefix}.${key}`, Object.keys(fields).map(k => `${prefix}.${k}`)));
+      continue;
+    }
+    try {
+      result[key] = validator(item);
+    } catch (error) {
+      if (!(error instanceof ValidationIssue)) throw error;
+      issues.push(`"${prefix}.${key}" ${error.message} (got ${JSON.stringify(item)})`);
+    }
+  }
+  return result;
+}
+
+// 未知的欄位：提示最接近的欄位名稱（拼錯時）
+function unknownKey(key: string, known: string[]): string {
+  const closest = known
+    .map(name => ({ name, distance: editDistance(key.toLowerCase(), name.toLowerCase()) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+  const hint = closest && closest.distance <= 2
+    ? `did you mean "${closest.name}"?`
+    : `valid keys: ${known.join(', ')}`;
+  return `unknown key "${key}" (${hint})`;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
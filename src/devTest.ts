@@ -11,8 +11,8 @@ console.log('\n--- Staged Files ---');
 const staged = await git.getStagedFiles();
 staged.forEach((f, i) => console.log(`[${i}] ${f.status} \t ${f.path}`));
 
-// 2. 測試：找一個 Untracked 檔案來顯示 Diff (status 為 '??' 或 '?')
-const untrackedFile = unstaged.find(f => f.status === '??' || f.status === '?');
+// 2. 測試：找一個 Untracked 檔案來顯示 Diff (status 為 '?')
+const untrackedFile = unstaged.find(f => f.status === '?');
 
 if (untrackedFile) {
     console.log(`\n\n=== Testing Diff for Untracked File: ${untrackedFile.path} ===`);
@@ -0,0 +1,105 @@
+import fs from 'node:fs';
+import { execa } from 'execa';
+
+// OSC 52 的 base64 內容超過這個長度時，許多終端機會直接忽略（xterm、hterm、tmux 等的預設上限）
+export const OSC52_MAX_BYTES = 100_000;
+
+export type CopyResult = {
+  method: string;     // 實際使用的方式：pbcopy / wl-copy / xclip / xsel / clip.exe / OSC 52
+  bytes: number;      // 複製的內容大小（UTF-8）
+  warning?: string;
+};
+
+/**
+ * 是否透過 SSH 連線（本機的剪貼簿工具會寫到遠端機器上）
+ */
+export function isRemoteSession(): boolean {
+  return Boolean(process.env.SSH_TTY || process.env.SSH_CONNECTION || process.env.SSH_CLIENT);
+}
+
+// 依平台排列可用的剪貼簿工具，依序嘗試
+function clipboardCommands(): Array<[string, string[]]> {
+  if (process.platform === 'darwin') return [['pbcopy', []]];
+  if (process.platform === 'win32') return [['clip.exe', []]];
+
+  const commands: Array<[string, string[]]> = [];
+  if (process.env.WAYLAND_DISPLAY) commands.push(['wl-copy', []]);
+  if (process.env.DISPLAY) {
+    commands.push(['xclip', ['-selection', 'clipboard']], ['xsel', ['--clipboard', '--input']]);
+  }
+  // WSL：寫入 Windows 的剪貼簿
+  if (process.env.WSL_DISTRO_NAME) commands.push(['clip.exe', []]);
+  return commands;
+}
+
+/**
+ * 將文字寫入系統剪貼簿
+ * 依平台使用 pbcopy / wl-copy / xclip / xsel / clip.exe；
+ * 透過 SSH 連線（且沒有轉送 X11 / Wayland）或找不到工具時，改用 OSC 52 交給終端機處理；
+ * 沒有終端機可以接收 OSC 52 時拋出錯誤
+ */
+export async function copyToClipboard(text: string): Promise<CopyResult> {
+  const bytes = Buffer.byteLength(text, 'utf8');
+  const hasDisplay = Boolean(process.env.DISPLAY || process.env.WAYLAND_DISPLAY);
+
+  if (!isRemoteSession() || hasDisplay) {
+    for (const [command, args] of clipboardCommands()) {
+      try {
+        await execa(command, args, { input: text });
+        return { method: command, bytes };
+      } catch {
+        // 工具不存在或失敗：嘗試下一個
+      }
+    }
+  }
+
+  const terminal = openTerminal();
+  if (!terminal) {
+    throw new Error('no clipboard tool found, and neither stdout nor stderr is a terminal to receive OSC 52');
+  }
+  return copyWithOsc52(text, terminal);
+}
+
+// OSC 52 的寫入位置：stdout 是終端機時直接使用；被導向檔案或管線時改寫到 /dev/tty 或 stderr，
+// 以免跳脫序列混進輸出內容。都不是終端機時回傳 null
+function openTerminal(): ((sequence: string) => void) | null {
+  if (process.stdout.isTTY) return sequence => process.stdout.write(sequence);
+
+  if (process.platform !== 'win32') {
+    try {
+      const fd = fs.openSync('/dev/tty', 'w');
+      return sequence => {
+        try {
+          fs.writeSync(fd, sequence);
+        } finally {
+          fs.closeSync(fd);
+        }
+      };
+    } catch {
+      // 沒有控制終端機（例如 CI 或 cron）
+    }
+  }
+
+  if (process.stderr.isTTY) return sequence => process.stderr.write(sequence);
+  return null;
+}
+
+// OSC 52：ESC ] 52 ; c ; <base64> BEL，由終端機寫入本機剪貼簿
+function copyWithOsc52(text: string, terminal: (sequence: string) => void): CopyResult {
+  const payload = Buffer.from(text, 'utf8').toString('base64');
+  let sequence = `\x1b]52;c;${payload}\x07`;
+
+  // tmux / screen 需要以 DCS passthrough 包住，才會轉送給外層終端機
+  if (process.env.TMUX) {
+    sequence = `\x1bPtmux;${sequence.replace(/\x1b/g, '\x1b\x1b')}\x1b\\`;
+  } else if (process.env.TERM?.startsWith('screen')) {
+    sequence = `\x1bP${sequence}\x1b\\`;
+  }
+  terminal(sequence);
+
+  const result: CopyResult = { method: 'OSC 52', bytes: Buffer.byteLength(text, 'utf8') };
+  if (payload.length > OSC52_MAX_BYTES) {
+    result.warning = `payload is ${Math.ceil(payload.length / 1024)} KB encoded; most terminals drop OSC 52 copies over ${OSC52_MAX_BYTES / 1000} KB`;
+  }
+  return result;
+}
@@ -0,0 +1,429 @@
+import { filterPaths, type FileFilter } from '../config/glob.js';
+import type { GitService } from '../git/GitService.js';
+import { binaryPlaceholder } from '../git/binary.js';
+import type { FileClassification } from '../git/types.js';
+import { formatDumpBundle, formatDumpFile, formatFileSize, formatOverview, type ExportFormat } from './format.js';
+import { jsonDumpManifest } from './json.js';
+import { writeOutputFiles, type OutputFile, type OutputResult, type OutputSink } from './sink.js';
+
+// 程式碼 dump 輸出模式
+export type DumpMode = 'tree' | 'flat';
+
+// C++ 副檔名定義（僅用於合併）
+const HEADER_EXTENSIONS = ['.h', '.hpp', '.hxx', '.hh'];
+const SOURCE_EXTENSIONS = ['.cpp', '.cxx', '.cc', '.c'];
+
+// 檔案配對類型
+type FilePair = {
+  baseName: string;
+  dirPath: string;
+  header: string | null;
+  source: string | null;
+};
+
+// 生成帶時間戳的檔案名
+export function getTimestampedFileName(prefix: string = 'diff', extension: string = 'txt'): string {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  const hours = String(now.getHours()).padStart(2, '0');
+  const minutes = String(now.getMinutes()).padStart(2, '0');
+  const seconds = String(now.getSeconds()).padStart(2, '0');
+
+  // 格式: prefix_20251228_212945.txt
+  return `${prefix}_${year}${month}${day}_${hours}${minutes}${seconds}.${extension}`;
+}
+
+// 生成帶時間戳的目錄名
+export function getTimestampedDirName(prefix: string = 'code_dump'): string {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  const hours = String(now.getHours()).padStart(2, '0');
+  const minutes = String(now.getMinutes()).padStart(2, '0');
+  const seconds = String(now.getSeconds()).padStart(2, '0');
+
+  // 格式: code_dump_20251228_215530
+  return `${prefix}_${year}${month}${day}_${hours}${minutes}${seconds}`;
+}
+
+// 解析匯出檔案路徑：目錄或無副檔名時，自動補上時間戳檔案名，並確保上層目錄存在
+export async function resolveExportFilePath(outputPath: string, prefix: string, extension: string = 'txt'): Promise<string> {
+  const path = await import('path');
+  const fs = await import('fs');
+  const fsPromises = await import('fs/promises');
+
+  let resolvedPath = path.isAbsolute(outputPath)
+    ? outputPath
+    : path.resolve(process.cwd(), outputPath);
+
+  try {
+    const stat = fs.statSync(resolvedPath);
+    if (stat.isDirectory()) {
+      resolvedPath = path.join(resolvedPath, getTimestampedFileName(prefix, extension));
+    }
+  } catch {
+    // 檔案不存在，沒有副檔名時視為目錄
+    if (path.extname(resolvedPath) === '') {
+      resolvedPath = path.join(resolvedPath, getTimestampedFileName(prefix, extension));
+    }
+  }
+
+  await fsPromises.mkdir(path.dirname(resolvedPath), { recursive: true });
+  return resolvedPath;
+}
+
+// 概覽與 code dump 的檔案範圍（來自設定檔）
+export type CodebaseOptions = {
+  filter?: FileFilter;
+  maxFileSize?: number | null;  // 超過此大小（bytes）的檔案不讀內容，改為單行說明
+};
+
+// 生成檔案概覽（所有檔案，包括 untracked）
+export async function generateFileOverview(git: GitService, format: ExportFormat, options: CodebaseOptions = {}): Promise<string> {
+  const path = await import('path');
+  const fs = await import('fs');
+
+  // ✅ 獲取所有檔案（包括 untracked，排除 gitignore），再套用 include / exclude
+  const allFiles = options.filter ? filterPaths(await git.getAllFiles(), options.filter) : await git.getAllFiles();
+  // 檔案路徑相對於 repo 根目錄，與從哪個子目錄啟動無關
+  const root = await git.getRepoRoot();
+
+  const files = allFiles.map(filePath => {
+    // 獲取檔案大小
+    let size = 0;
+    try {
+      const fullPath = path.join(root, filePath);
+      const stat = fs.statSync(fullPath);
+      size = stat.size;
+    } catch (error) {
+      // 檔案不存在或無法訪問，使用 0
+      size = 0;
+    }
+    return { path: filePath, size };
+  });
+
+  // 依格式輸出（依目錄分組、排序）
+  return formatOverview(files, format, await git.getRepoInfo());
+}
+
+// 生成合併的程式碼庫
+export async function generateMergedCodebase(git: GitService, mode: DumpMode, options: CodebaseOptions = {}): Promise<{
+  files: Map<string, string>;
+  sources: Map<string, string[]>;  // 輸出檔案 → 來源檔案
+  binaries: FileClassification[];
+  oversized: FileClassification[];
+}> {
+  const path = await import('path');
+  const fs = await import('fs');
+
+  // ✅ 獲取所有檔案（包括 untracked，排除 gitignore），再套用 include / exclude
+  const allFiles = options.filter ? filterPaths(await git.getAllFiles(), options.filter) : await git.getAllFiles();
+  const root = await git.getRepoRoot();
+
+  // Binary 與超過大小上限的檔案不讀內容，改為單行說明
+  const classifications = await git.classifyFiles(allFiles);
+  const binaries = classifications.filter(c => c.binary);
+  const { maxFileSize } = options;
+  const oversized = maxFileSize == null ? [] : classifications.filter(c => !c.binary && c.size > maxFileSize);
+  const binaryMap = new Map(binaries.map(b => [b.path, b]));
+  const oversizedMap = new Map(oversized.map(o => [o.path, o]));
+  const readContent = (filePath: string): string => {
+    const info = binaryMap.get(filePath);
+    if (info) return `${binaryPlaceholder(info)}\n`;
+    const large = oversizedMap.get(filePath);
+    if (large) return `[large file skipped: ${large.path}, ${large.size} bytes, over the ${maxFileSize}-byte limit]\n`;
+    return fs.readFileSync(path.join(root, filePath), 'utf8');
+  };
+
+  // 分類檔案
+  const headers: string[] = [];
+  const sources: string[] = [];
+  const otherFiles: string[] = [];
+
+  for (const file of allFiles) {
+    const ext = path.extname(file).toLowerCase();
+
+    if (HEADER_EXTENSIONS.includes(ext)) {
+      headers.push(file);
+    } else if (SOURCE_EXTENSIONS.includes(ext)) {
+      sources.push(file);
+    } else {
+      // ✅ 所有其他檔案都保留（js, ts, hlsl, txt, 等等）
+      otherFiles.push(file);
+    }
+  }
+
+  // 建立檔案配對映射
+  const pairMap = new Map<string, FilePair>();
+
+  // 處理 headers
+  for (const headerPath of headers) {
+    const dir = path.dirname(headerPath);
+    const baseName = path.basename(headerPath, path.extname(headerPath));
+    const key = `${dir}|${baseName}`;
+
+    if (!pairMap.has(key)) {
+      pairMap.set(key, {
+        baseName,
+        dirPath: dir,
+        header: headerPath,
+        source: null,
+      });
+    }
+  }
+
+  // 配對 sources
+  const unmatchedSources: string[] = [];
+  for (const sourcePath of sources) {
+    const dir = path.dirname(sourcePath);
+    const baseName = path.basename(sourcePath, path.extname(sourcePath));
+    const key = `${dir}|${baseName}`;
+
+    if (pairMap.has(key)) {
+      pairMap.get(key)!.source = sourcePath;
+    } else {
+      // ✅ 獨立的 .cpp 也要匯出（沒有對應 header）
+      unmatchedSources.push(sourcePath);
+    }
+  }
+
+  // 生成合併檔案內容
+  const outputFiles = new Map<string, string>();
+  const outputSources = new Map<string, string[]>();
+  const now = new Date();
+  const timestamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:${String(now.getSeconds()).padStart(2, '0')}`;
+
+  // 處理配對的 C++ 檔案
+  for (const [key, pair] of pairMap) {
+    const { baseName, dirPath, header, source } = pair;
+
+    const outputFileName = mode === 'flat'
+      ? `${dirPath === '.' ? '' : dirPath.replace(/[/\\]/g, '_') + '_'}${baseName}_merged.cpp`
+      : `${dirPath}/${baseName}_merged.cpp`;
+
+    let content = '';
+    content += '// ============================================================================\n';
+    content += `// 合併檔案: ${baseName}\n`;
+    content += `// 原始路徑: ${dirPath}\n`;
+    content += `// 合併時間: ${timestamp}\n`;
+    content += `// 輸出模式: ${mode === 'flat' ? '扁平化' : '目錄結構'}\n`;
+
+    if (header && source) {
+      // 合併 header 和 source
+      content += `// Header: ${path.basename(header)}\n`;
+      content += `// Source: ${path.basename(source)}\n`;
+      content += '// ============================================================================\n\n';
+      content += `// -------------------- Header File: ${path.basename(header)} --------------------\n\n`;
+
+      try {
+        const headerContent = readContent(header);
+        content += headerContent;
+      } catch (error) {
+        content += `// Error reading header: ${error}\n`;
+      }
+
+      content += '\n\n';
+      content += `// -------------------- Source File: ${path.basename(source)} --------------------\n\n`;
+
+      try {
+        const sourceContent = readContent(source);
+        content += sourceContent;
+      } catch (error) {
+        content += `// Error reading source: ${error}\n`;
+      }
+    } else if (header) {
+      // 只有 header
+      content += `// Header: ${path.basename(header)}\n`;
+      content += '// Source: (無對應的 source 檔案)\n';
+      content += '// ============================================================================\n\n';
+
+      try {
+        const headerContent = readContent(header);
+        content += headerContent;
+      } catch (error) {
+        content += `// Error reading header: ${error}\n`;
+      }
+    } else if (source) {
+      // 只有 source
+      content += `// Header: (無對應的 header 檔案)\n`;
+      content += `// Source: ${path.basename(source)}\n`;
+      content += '// ============================================================================\n\n';
+
+      try {
+        const sourceContent = readContent(source);
+        content += sourceContent;
+      } catch (error) {
+        content += `// Error reading source: ${error}\n`;
+      }
+    }
+
+    outputFiles.set(outputFileName, content);
+    outputSources.set(outputFileName, [header, source].filter((p): p is string => p !== null));
+  }
+
+  // ✅ 處理獨立的 source 檔案（沒有對應 header 的 .cpp）
+  for (const sourcePath of unmatchedSources) {
+    const dir = path.dirname(sourcePath);
+    const baseName = path.basename(sourcePath);
+
+    const outputFileName = mode === 'flat'
+      ? `${dir === '.' ? '' : dir.replace(/[/\\]/g, '_') + '_'}${baseName}`
+      : `${dir}/${baseName}`;
+
+    let content = '';
+    content += '// ============================================================================\n';
+    content += `// 獨立檔案: ${baseName}\n`;
+    content += `// 原始路徑: ${dir}\n`;
+    content += `// 匯出時間: ${timestamp}\n`;
+    content += '// ============================================================================\n\n';
+
+    try {
+      const fileContent = readContent(sourcePath);
+      content += fileContent;
+    } catch (error) {
+      content += `// Error reading file: ${error}\n`;
+    }
+
+    outputFiles.set(outputFileName, content);
+    outputSources.set(outputFileName, [sourcePath]);
+  }
+
+  // ✅ 處理所有其他檔案（js, ts, hlsl, txt, json, 等等）
+  for (const filePath of otherFiles) {
+    const dir = path.dirname(filePath);
+    const fileName = path.basename(filePath);
+
+    const outputFileName = mode === 'flat'
+      ? `${dir === '.' ? '' : dir.replace(/[/\\]/g, '_') + '_'}${fileName}`
+      : `${dir}/${fileName}`;
+
+    let content = '';
+
+    try {
+      const fileContent = readContent(filePath);
+      content = fileContent;
+    } catch (error) {
+      content = `// Error reading file: ${error}\n`;
+    }
+
+    outputFiles.set(outputFileName, content);
+    outputSources.set(outputFileName, [filePath]);
+  }
+
+  return { files: outputFiles, sources: outputSources, binaries, oversized };
+}
+
+// 生成匯出摘要
+export function generateDumpSummary(
+  files: Map<string, string>,
+  binaries: FileClassification[],
+  sourceDir: string,
+  outputDir: string,
+  mode: DumpMode,
+  oversized: FileClassification[] = []
+): string {
+  const now = new Date();
+  const timestamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:${String(now.getSeconds()).padStart(2, '0')}`;
+
+  let summary = '';
+  summary += '='.repeat(80) + '\n';
+  summary += 'Code Dump Summary\n';
+  summary += '='.repeat(80) + '\n\n';
+  summary += `Export Time: ${timestamp}\n`;
+  summary += `Source Directory: ${sourceDir}\n`;
+  summary += `Output Directory: ${outputDir}\n`;
+  summary += `Output Mode: ${mode === 'flat' ? 'Flattened' : 'Directory Tree'}\n\n`;
+  summary += `Statistics:\n`;
+  summary += `  - Total Files: ${files.size}\n`;
+  summary += `  - Skipped Binary Files: ${binaries.length}\n`;
+  if (oversized.length > 0) summary += `  - Skipped Large Files: ${oversized.length}\n`;
+  summary += '\n';
+  summary += '='.repeat(80) + '\n';
+  summary += 'File List\n';
+  summary += '='.repeat(80) + '\n\n';
+
+  const sortedFiles = Array.from(files.keys()).sort();
+  for (const fileName of sortedFiles) {
+    summary += `  ${fileName}\n`;
+  }
+
+  if (binaries.length > 0) {
+    summary += '\n' + '='.repeat(80) + '\n';
+    summary += 'Skipped Binary Files (content replaced with a placeholder)\n';
+    summary += '='.repeat(80) + '\n\n';
+    for (const binary of [...binaries].sort((a, b) => a.path.localeCompare(b.path))) {
+      summary += `  ${binary.path} (${formatFileSize(binary.size)}, ${binary.type})\n`;
+    }
+  }
+
+  if (oversized.length > 0) {
+    summary += '\n' + '='.repeat(80) + '\n';
+    summary += 'Skipped Large Files (over maxFileSize, content replaced with a placeholder)\n';
+    summary += '='.repeat(80) + '\n\n';
+    for (const file of [...oversized].sort((a, b) => a.path.localeCompare(b.path))) {
+      summary += `  ${file.path} (${formatFileSize(file.size)})\n`;
+    }
+  }
+
+  summary += '\n' + '='.repeat(80) + '\n';
+  if (mode === 'flat') {
+    summary += 'Note: In flat mode, path information is encoded in filenames\n';
+    summary += '      Path separators \'/\' and \'\\\' are replaced with \'_\'\n';
+  } else {
+    summary += 'Note: Directory structure is preserved\n';
+  }
+  summary += '='.repeat(80) + '\n';
+
+  return summary;
+}
+
+/**
+ * 輸出 code dump
+ * 目錄：每個輸出檔案、dump_summary.txt，JSON 格式另外輸出 dump_manifest.json
+ * 其他位置（stdout / 剪貼簿）：所有檔案合併為單一文件
+ */
+export async function exportCodeDump(options: {
+  git: GitService;
+  output: OutputSink;
+  mode: DumpMode;
+  format: ExportFormat;
+} & CodebaseOptions): Promise<{
+  files: Map<string, string>;
+  binaries: FileClassification[];
+  oversized: FileClassification[];
+  result: OutputResult;
+}> {
+  const { git, output, mode, format, ...codebaseOptions } = options;
+  const { files, sources, binaries, oversized } = await generateMergedCodebase(git, mode, codebaseOptions);
+  const repo = await git.getRepoInfo();
+  const outputName = (name: string) => name.replace(/^\.\//, '');
+
+  const bundle = () => formatDumpBundle(
+    [...files].map(([name, content]) => ({ output: outputName(name), sources: sources.get(name) ?? [], content })),
+    binaries,
+    mode,
+    format,
+    repo
+  );
+
+  const outputFiles: OutputFile[] = [...files].map(([name, raw]) => {
+    const { fileName, content } = formatDumpFile(name, raw, format);
+    return { name: fileName, content };
+  });
+  if (output.kind === 'directory') {
+    // 摘要檔案直接放在輸出目錄的根目錄
+    outputFiles.push({ name: 'dump_summary.txt', content: generateDumpSummary(files, binaries, repo.root, output.path, mode, oversized) });
+
+    // JSON 格式另外輸出輸出檔案與來源檔案的對應
+    if (format === 'json') {
+      const manifest = [...sources].map(([name, list]) => ({ output: outputName(name), sources: list }));
+      outputFiles.push({ name: 'dump_manifest.json', content: jsonDumpManifest(manifest, binaries, mode, repo) });
+    }
+  }
+
+  const result = await writeOutputFiles(output, outputFiles, bundle);
+  return { files, binaries, oversized, result };
+}
@@ -0,0 +1,183 @@
+import type { FileClassification, GitChangeStatus, GitStatusCode, RepoInfo } from '../git/types.js';
+import { jsonDiffs, jsonDumpManifest, jsonOverview, type DumpManifestEntry } from './json.js';
+import { markdownDiffs, markdownDumpFile, markdownOverview } from './markdown.js';
+import { xmlDiffs, xmlDumpFiles, xmlOverview } from './xml.js';
+
+// 匯出格式：純文字（原本的輸出） / Markdown / XML（<documents> 包住每個檔案） / JSON（給腳本處理）
+export type ExportFormat = 'text' | 'markdown' | 'xml' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['text', 'markdown', 'xml', 'json'];
+
+// 多檔 diff 中的單一檔案（text 以外的格式使用）
+export type DiffEntry = {
+  path: string;               // 以 repo 根目錄為基準（submodule 內部檔案含 submodule 路徑）
+  oldPath?: string;           // rename / copy 的來源
+  status: GitChangeStatus;
+  index?: GitStatusCode;      // git status 的 X / Y（與 ref 比較時沒有）
+  worktree?: GitStatusCode;
+  staged: boolean;
+  additions: number | null;   // binary 檔案為 null
+  deletions: number | null;
+  diff: string;
+  content?: {                 // 「diff + 完整內容」模式才有
+    source: string;
+    text: string;
+  };
+};
+
+// 檔案概覽中的單一檔案
+export type OverviewFile = {
+  path: string;
+  size: number;
+};
+
+/**
+ * 依格式輸出多檔 diff
+ */
+export function formatDiffEntries(entries: DiffEntry[], format: Exclude<ExportFormat, 'text'>, repo: RepoInfo): string {
+  switch (format) {
+    case 'markdown':
+      return markdownDiffs(entries);
+    case 'xml':
+      return xmlDiffs(entries);
+    case 'json':
+      return jsonDiffs(entries, repo);
+  }
+}
+
+/**
+ * 依格式輸出檔案概覽
+ */
+export function formatOverview(files: OverviewFile[], format: ExportFormat, repo: RepoInfo): string {
+  switch (format) {
+    case 'text':
+      return textOverview(files);
+    case 'markdown':
+      return markdownOverview(files);
+    case 'xml':
+      return xmlOverview(files);
+    case 'json':
+      return jsonOverview(files, repo);
+  }
+}
+
+/**
+ * 依格式輸出 code dump 的單一檔案（回傳實際寫入的檔名與內容）
+ * JSON 格式的檔案維持原樣，另外輸出 manifest
+ */
+export function formatDumpFile(fileName: string, content: string, format: ExportFormat): { fileName: string; content: string } {
+  switch (format) {
+    case 'text':
+    case 'json':
+      return { fileName, content };
+    case 'markdown':
+      return { fileName: `${fileName}.md`, content: markdownDumpFile(fileName, content) };
+    case 'xml':
+      return { fileName: `${fileName}.xml`, content: xmlDumpFiles([{ fileName, content }]) };
+  }
+}
+
+/**
+ * 將 code dump 合併為單一文件（複製到剪貼簿時使用）
+ */
+export function formatDumpBundle(
+  files: Array<DumpManifestEntry & { content: string }>,
+  binaries: FileClassification[],
+  mode: 'tree' | 'flat',
+  format: ExportFormat,
+  repo: RepoInfo
+): string {
+  switch (format) {
+    case 'text':
+      return files.map(f => `${'='.repeat(80)}\nFile: ${f.output}\n${'='.repeat(80)}\n\n${f.content}`).join('\n');
+    case 'markdown':
+      return files.map(f => markdownDumpFile(f.output, f.content)).join('\n');
+    case 'xml':
+      return xmlDumpFiles(files.map(f => ({ fileName: f.output, content: f.content })));
+    case 'json':
+      return jsonDumpManifest(files, binaries, mode, repo);
+  }
+}
+
+// 各格式的副檔名
+export function formatExtension(format: ExportFormat): string {
+  switch (format) {
+    case 'text':
+      return 'txt';
+    case 'markdown':
+      return 'md';
+    case 'xml':
+      return 'xml';
+    case 'json':
+      return 'json';
+  }
+}
+
+// 顯示用名稱
+export function formatLabel(format: ExportFormat): string {
+  switch (format) {
+    case 'text':
+      return 'Plain text';
+    case 'markdown':
+      return 'Markdown';
+    case 'xml':
+      return 'XML documents';
+    case 'json':
+      return 'JSON';
+  }
+}
+
+// 狀態代碼的說明
+export const STATUS_LABELS: Record<GitChangeStatus, string> = {
+  A: 'added',
+  M: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+  T: 'type changed',
+  U: 'unmerged',
+  X: 'unknown',
+  B: 'broken',
+  '?': 'untracked',
+};
+
+// 檔案大小格式化函數
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/**
+ * 依目錄分組（目錄與檔案皆已排序）
+ */
+export function groupByDirectory(files: OverviewFile[]): Array<[string, Array<{ name: string; size: number }>]> {
+  const grouped = new Map<string, Array<{ name: string; size: number }>>();
+  for (const file of files) {
+    const slash = file.path.lastIndexOf('/');
+    const dir = slash < 0 ? '.' : file.path.slice(0, slash);
+    const list = grouped.get(dir) ?? [];
+    list.push({ name: file.path.slice(slash + 1), size: file.size });
+    grouped.set(dir, list);
+  }
+
+  return Array.from(grouped.keys()).sort().map(dir => [
+    dir,
+    grouped.get(dir)!.sort((a, b) => a.name.localeCompare(b.name)),
+  ]);
+}
+
+// 原本的純文字概覽：[dir] 之下列出檔案與大小
+function textOverview(files: OverviewFile[]): string {
+  let output = '';
+  for (const [dir, entries] of groupByDirectory(files)) {
+    output += `${dir === '.' ? '[.]' : `[${dir}]`}\n`;
+    for (const file of entries) {
+      output += `  - ${file.name} (${formatFileSize(file.size)})\n`;
+    }
+    output += '\n';
+  }
+  return output;
+}
@@ -0,0 +1,74 @@
+import type { FileClassification, RepoInfo } from '../git/types.js';
+import type { DiffEntry, OverviewFile } from './format.js';
+
+// 輸出結構改變時遞增，讓讀取端可以判斷格式
+export const JSON_SCHEMA_VERSION = 1;
+
+// code dump 的單一輸出檔案與其來源
+export type DumpManifestEntry = {
+  output: string;     // 相對於 dump 目錄
+  sources: string[];  // 相對於 repo 根目錄（C++ 配對時為 header + source）
+  content?: string;   // 合併為單一文件時才包含內容
+};
+
+// 所有 JSON 匯出共用的外層
+function envelope(type: 'diff' | 'overview' | 'code-dump', repo: RepoInfo, body: Record<string, unknown>): string {
+  const document = {
+    schema: `git-diff-tui/${type}`,
+    version: JSON_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    repository: repo,
+    ...body,
+  };
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * 多檔 diff：每個檔案的狀態、增刪行數與 diff 內容
+ */
+export function jsonDiffs(entries: DiffEntry[], repo: RepoInfo): string {
+  return envelope('diff', repo, {
+    files: entries.map(entry => ({
+      path: entry.path,
+      oldPath: entry.oldPath ?? null,
+      status: entry.status,
+      index: entry.index ?? null,
+      worktree: entry.worktree ?? null,
+      staged: entry.staged,
+      numstat: entry.additions === null || entry.deletions === null
+        ? null
+        : { additions: entry.additions, deletions: entry.deletions },
+      binary: entry.additions === null,
+      diff: entry.diff,
+      ...(entry.content && { content: { source: entry.content.source, text: entry.content.text } }),
+    })),
+  });
+}
+
+/**
+ * 檔案概覽：所有檔案的路徑與大小（bytes）
+ */
+export function jsonOverview(files: OverviewFile[], repo: RepoInfo): string {
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  return envelope('overview', repo, {
+    totalFiles: sorted.length,
+    totalSize: sorted.reduce((sum, f) => sum + f.size, 0),
+    files: sorted.map(f => ({ path: f.path, size: f.size })),
+  });
+}
+
+/**
+ * Code dump 的 manifest：輸出檔案與來源檔案的對應（項目有 content 時一併輸出）
+ */
+export function jsonDumpManifest(
+  entries: DumpManifestEntry[],
+  binaries: FileClassification[],
+  mode: 'tree' | 'flat',
+  repo: RepoInfo
+): string {
+  return envelope('code-dump', repo, {
+    mode,
+    files: [...entries].sort((a, b) => a.output.localeCompare(b.output)),
+    skippedBinaries: binaries.map(b => ({ path: b.path, size: b.size, type: b.type })),
+  });
+}
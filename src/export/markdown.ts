@@ -0,0 +1,104 @@
+import { STATUS_LABELS, formatFileSize, groupByDirectory, type DiffEntry, type OverviewFile } from './format.js';
+
+// 副檔名 → fenced code block 的語言標記
+const FENCE_LANGUAGES: Record<string, string> = {
+  ts: 'ts', tsx: 'tsx', mts: 'ts', cts: 'ts',
+  js: 'js', jsx: 'jsx', mjs: 'js', cjs: 'js',
+  json: 'json', jsonc: 'jsonc',
+  py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin', swift: 'swift',
+  c: 'c', h: 'cpp', cc: 'cpp', cpp: 'cpp', cxx: 'cpp', hh: 'cpp', hpp: 'cpp', hxx: 'cpp',
+  cs: 'csharp', hlsl: 'hlsl', hlsli: 'hlsl', fx: 'hlsl', glsl: 'glsl', vert: 'glsl', frag: 'glsl',
+  sh: 'bash', bash: 'bash', zsh: 'bash', ps1: 'powershell', bat: 'bat',
+  html: 'html', htm: 'html', xml: 'xml', svg: 'xml', css: 'css', scss: 'scss',
+  md: 'markdown', markdown: 'markdown', yml: 'yaml', yaml: 'yaml', toml: 'toml', ini: 'ini',
+  sql: 'sql', lua: 'lua', php: 'php', vue: 'vue', svelte: 'svelte', cmake: 'cmake',
+};
+
+/**
+ * 依副檔名決定 fenced code block 的語言標記（無法判斷時為空字串）
+ */
+export function fenceLanguage(filePath: string): string {
+  const name = filePath.split('/').pop() ?? filePath;
+  if (name === 'Dockerfile') return 'dockerfile';
+  if (name === 'Makefile') return 'makefile';
+  if (name === 'CMakeLists.txt') return 'cmake';
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? FENCE_LANGUAGES[name.slice(dot + 1).toLowerCase()] ?? '' : '';
+}
+
+/**
+ * 以 fenced code block 包住內容
+ * 內容本身含有 ``` 時，fence 使用比內容中最長的連續反引號更長的長度
+ */
+export function fence(content: string, language = ''): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(Math.max(3, longest + 1));
+  const body = content.endsWith('\n') ? content : `${content}\n`;
+  return `${marker}${language}\n${body}${marker}\n`;
+}
+
+// 表格儲存格：跳脫 | 與反斜線
+function cell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|');
+}
+
+// 標題中的路徑：跳脫 Markdown 的強調符號
+function headingText(text: string): string {
+  return text.replace(/([\\`*_[\]<>#])/g, '\\$1');
+}
+
+/**
+ * 多檔 diff：變更摘要表，接著每個檔案一個標題與 diff（以及完整內容）
+ */
+export function markdownDiffs(entries: DiffEntry[]): string {
+  const count = (value: number | null) => value === null ? 'binary' : String(value);
+  const additions = entries.reduce((sum, e) => sum + (e.additions ?? 0), 0);
+  const deletions = entries.reduce((sum, e) => sum + (e.deletions ?? 0), 0);
+
+  let output = '# Changes\n\n';
+  output += `${entries.length} file(s) changed, +${additions} −${deletions}\n\n`;
+  output += '| File | Status | + | − |\n';
+  output += '|------|--------|--:|--:|\n';
+  for (const entry of entries) {
+    const file = entry.oldPath ? `${entry.oldPath} → ${entry.path}` : entry.path;
+    const status = `${entry.status} (${STATUS_LABELS[entry.status]}${entry.staged ? ', staged' : ''})`;
+    output += `| ${cell(file)} | ${status} | ${count(entry.additions)} | ${count(entry.deletions)} |\n`;
+  }
+
+  for (const entry of entries) {
+    output += `\n## ${headingText(entry.path)}\n\n`;
+    if (entry.oldPath) output += `Renamed from \`${entry.oldPath}\`\n\n`;
+    output += fence(entry.diff || '(no changes)', 'diff');
+
+    if (entry.content) {
+      output += `\n### Contents (${entry.content.source})\n\n`;
+      output += fence(entry.content.text, fenceLanguage(entry.path));
+    }
+  }
+
+  return output;
+}
+
+/**
+ * 檔案概覽：每個目錄一個標題，之下列出檔案與大小
+ */
+export function markdownOverview(files: OverviewFile[]): string {
+  const total = files.reduce((sum, f) => sum + f.size, 0);
+
+  let output = '# Files Overview\n\n';
+  output += `${files.length} file(s), ${formatFileSize(total)}\n`;
+  for (const [dir, entries] of groupByDirectory(files)) {
+    output += `\n## ${headingText(dir === '.' ? './' : `${dir}/`)}\n\n`;
+    for (const file of entries) {
+      output += `- \`${file.name}\` (${formatFileSize(file.size)})\n`;
+    }
+  }
+  return output;
+}
+
+/**
+ * Code dump 的單一輸出檔案
+ */
+export function markdownDumpFile(fileName: string, content: string): string {
+  return `# ${headingText(fileName)}\n\n${fence(content, fenceLanguage(fileName))}`;
+}
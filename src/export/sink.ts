@@ -0,0 +1,79 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { copyToClipboard } from './clipboard.js';
+
+// 匯出的輸出位置
+export type OutputSink =
+  | { kind: 'file'; path: string }        // 單一檔案（上層目錄不存在時建立）
+  | { kind: 'directory'; path: string }   // 多個檔案（code dump）；單一文件無法寫入目錄
+  | { kind: 'stdout' }                    // 給管線使用，狀態訊息應改寫到 stderr
+  | { kind: 'clipboard' };
+
+export type OutputResult = {
+  destination: string;  // 檔案 / 目錄路徑，或 "stdout" / "clipboard"
+  bytes: number;        // 寫出的內容大小（UTF-8）
+  method?: string;      // 剪貼簿使用的方式（pbcopy / OSC 52 ...）
+  warning?: string;
+};
+
+// 多檔輸出中的單一檔案（name 為相對於輸出目錄的路徑）
+export type OutputFile = {
+  name: string;
+  content: string;
+};
+
+/**
+ * 將單一文件寫到輸出位置
+ */
+export async function writeOutput(sink: OutputSink, content: string): Promise<OutputResult> {
+  const bytes = Buffer.byteLength(content, 'utf8');
+  switch (sink.kind) {
+    case 'file':
+      await fs.mkdir(path.dirname(sink.path), { recursive: true });
+      await fs.writeFile(sink.path, content, 'utf8');
+      return { destination: sink.path, bytes };
+    case 'directory':
+      throw new Error(`Cannot write a single export to a directory: ${sink.path}`);
+    case 'stdout':
+      await writeStdout(content);
+      return { destination: 'stdout', bytes };
+    case 'clipboard': {
+      const { method, warning } = await copyToClipboard(content);
+      return { destination: 'clipboard', bytes, method, ...(warning !== undefined && { warning }) };
+    }
+  }
+}
+
+/**
+ * 將多個檔案寫到輸出位置
+ * 目錄：逐一寫入檔案；其他位置：改為寫入合併後的單一文件（bundle）
+ */
+export async function writeOutputFiles(sink: OutputSink, files: OutputFile[], bundle: () => string): Promise<OutputResult> {
+  if (sink.kind !== 'directory') {
+    return writeOutput(sink, bundle());
+  }
+
+  let bytes = 0;
+  for (const file of files) {
+    const filePath = path.join(sink.path, file.name);
+    // 確保子目錄存在（目錄結構模式需要）
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, file.content, 'utf8');
+    bytes += Buffer.byteLength(file.content, 'utf8');
+  }
+  return { destination: sink.path, bytes };
+}
+
+// 等待內容實際寫出（管線時 process.exit 可能截斷尚未送出的資料）
+// 讀取端提早關閉（例如 | head）時的 EPIPE 不視為錯誤
+function writeStdout(content: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    process.stdout.write(content, error => {
+      if (error && (error as NodeJS.ErrnoException).code !== 'EPIPE') {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
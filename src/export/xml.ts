@@ -0,0 +1,78 @@
+import type { DiffEntry, OverviewFile } from './format.js';
+
+// XML 1.0 不允許的字元：\t \n \r 以外的控制字元、U+FFFE、U+FFFF（改為 U+FFFD）
+const INVALID_XML_CHARS = /[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g;
+
+/**
+ * 屬性值：跳脫特殊字元
+ */
+export function escapeAttribute(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '\uFFFD')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+}
+
+/**
+ * 以 CDATA 包住內容，原文保持不變
+ * 內容中的 "]]>" 會結束 CDATA，因此拆成兩段 CDATA
+ */
+export function cdata(text: string): string {
+  const safe = text.replace(INVALID_XML_CHARS, '\uFFFD').replace(/]]>/g, ']]]]><![CDATA[>');
+  return `<![CDATA[${safe}]]>`;
+}
+
+// 一個元素：attributes 中 undefined 的項目不輸出
+function element(name: string, attributes: Record<string, string | number | boolean | undefined>, body?: string): string {
+  const attrs = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeAttribute(String(value))}"`)
+    .join('');
+  return body === undefined ? `<${name}${attrs} />` : `<${name}${attrs}>${body}</${name}>`;
+}
+
+/**
+ * 多檔 diff：每個檔案一個 <document>，包含 <diff> 與（可選的）<content>
+ */
+export function xmlDiffs(entries: DiffEntry[]): string {
+  const documents = entries.map(entry => {
+    const body = [
+      `<diff>${cdata(entry.diff)}</diff>`,
+      ...(entry.content ? [element('content', { source: entry.content.source }, cdata(entry.content.text))] : []),
+    ].join('\n');
+    return element('document', {
+      path: entry.path,
+      old_path: entry.oldPath,
+      status: entry.status,
+      staged: entry.staged,
+      additions: entry.additions ?? undefined,
+      deletions: entry.deletions ?? undefined,
+      binary: entry.additions === null ? true : undefined,
+    }, `\n${body}\n`);
+  });
+  return wrapDocuments(documents);
+}
+
+/**
+ * 檔案概覽：每個檔案一個空的 <document>，只有路徑與大小
+ */
+export function xmlOverview(files: OverviewFile[]): string {
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  return wrapDocuments(sorted.map(file => element('document', { path: file.path, size: file.size })));
+}
+
+/**
+ * Code dump 的輸出檔案（每個檔案一個 <document>）
+ */
+export function xmlDumpFiles(files: Array<{ fileName: string; content: string }>): string {
+  return wrapDocuments(files.map(file =>
+    element('document', { path: file.fileName }, `\n<content>${cdata(file.content)}</content>\n`)
+  ));
+}
+
+function wrapDocuments(documents: string[]): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<documents>\n${documents.map(d => `${d}\n`).join('')}</documents>\n`;
+}
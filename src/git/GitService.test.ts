@@ -0,0 +1,89 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePorcelainV2Z } from './GitService.js';
+
+// git status --porcelain=v2 -z 的記錄以 NUL 結尾
+const z = (...records: string[]) => records.map(record => `${record}\0`).join('');
+
+describe('parsePorcelainV2Z', () => {
+  test('returns no changes for empty output', () => {
+    assert.deepEqual(parsePorcelainV2Z(''), { branch: { oid: null, head: null }, changes: [] });
+  });
+
+  test('parses the branch headers', () => {
+    const { branch } = parsePorcelainV2Z(z(
+      '# branch.oid 1234abcd',
+      '# branch.head feature/x',
+      '# branch.upstream origin/feature/x',
+      '# branch.ab +2 -3',
+    ));
+    assert.deepEqual(branch, { oid: '1234abcd', head: 'feature/x', upstream: 'origin/feature/x', ahead: 2, behind: 3 });
+  });
+
+  test('reads an initial commit and a detached HEAD as null', () => {
+    const { branch } = parsePorcelainV2Z(z('# branch.oid (initial)', '# branch.head (detached)'));
+    assert.deepEqual(branch, { oid: null, head: null });
+  });
+
+  test('parses ordinary changes with the status of each side', () => {
+    const { changes } = parsePorcelainV2Z(z(
+      '1 M. N... 100644 100644 100644 aaa bbb staged.ts',
+      '1 .M N... 100644 100644 100644 aaa aaa unstaged.ts',
+      '1 MM N... 100644 100644 100644 aaa bbb both.ts',
+      '1 A. N... 000000 100644 100644 000 bbb added.ts',
+    ));
+    assert.deepEqual(changes.map(c => [c.path, c.index, c.worktree, c.status]), [
+      ['staged.ts', 'M', '.', 'M'],
+      ['unstaged.ts', '.', 'M', 'M'],
+      ['both.ts', 'M', 'M', 'M'],
+      ['added.ts', 'A', '.', 'A'],
+    ]);
+    assert.deepEqual(changes[3]?.modes, { head: '000000', index: '100644', worktree: '100644' });
+  });
+
+  test('keeps spaces in paths', () => {
+    const { changes } = parsePorcelainV2Z(z('1 .M N... 100644 100644 100644 aaa aaa docs/my file.md'));
+    assert.equal(changes[0]?.path, 'docs/my file.md');
+  });
+
+  test('reads the original path of a rename from the next record', () => {
+    const { changes } = parsePorcelainV2Z(z(
+      '2 R. N... 100644 100644 100644 aaa aaa R87 new name.ts',
+      'old name.ts',
+      '1 .M N... 100644 100644 100644 aaa aaa after.ts',
+    ));
+    assert.equal(changes.length, 2);
+    assert.deepEqual(changes[0], {
+      path: 'new name.ts',
+      oldPath: 'old name.ts',
+      kind: 'renamed',
+      index: 'R',
+      worktree: '.',
+      status: 'R',
+      score: 87,
+      modes: { head: '100644', index: '100644', worktree: '100644' },
+    });
+    assert.equal(changes[1]?.path, 'after.ts');
+  });
+
+  test('marks unmerged entries as conflicts', () => {
+    const { changes } = parsePorcelainV2Z(z('u UU N... 100644 100644 100644 100644 aaa bbb ccc conflict.ts'));
+    assert.deepEqual(changes, [{ path: 'conflict.ts', kind: 'unmerged', index: 'U', worktree: 'U', status: 'U' }]);
+  });
+
+  test('parses untracked files', () => {
+    const { changes } = parsePorcelainV2Z(z('? new dir/file.txt'));
+    assert.deepEqual(changes, [{ path: 'new dir/file.txt', kind: 'untracked', index: '?', worktree: '?', status: '?' }]);
+  });
+
+  test('reads the submodule state', () => {
+    const { changes } = parsePorcelainV2Z(z(
+      '1 .M SCMU 160000 160000 160000 aaa aaa libs/core',
+      '1 .M S.M. 160000 160000 160000 aaa aaa libs/ui',
+    ));
+    assert.deepEqual(changes.map(c => c.submodule), [
+      { commitChanged: true, trackedChanges: true, untrackedChanges: true },
+      { commitChanged: false, trackedChanges: true, untrackedChanges: false },
+    ]);
+  });
+});
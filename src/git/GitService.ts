@@ -1,7 +1,51 @@
 import { execa } from 'execa';
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import type { GitChange, GitChangeStatus } from './types.js';
+import { binaryPlaceholder, detectFileType, sniffBinary } from './binary.js';
+import { diffOptionArgs } from './diffOptions.js';
+import { formatUnifiedDiff, parseUnifiedDiff, selectHunks } from './diffParser.js';
+import { formatDiffEntries, type DiffEntry, type ExportFormat } from '../export/format.js';
+import { writeOutput, type OutputResult, type OutputSink } from '../export/sink.js';
+import type {
+  BranchInfo,
+  ChangeGroups,
+  CommitItem,
+  CompareRange,
+  ConflictStage,
+  DiffFile,
+  DiffOptions,
+  FileClassification,
+  FileModes,
+  GitChange,
+  GitChangeStatus,
+  GitRef,
+  GitStatus,
+  GitStatusCode,
+  RepoInfo,
+  StashItem,
+  SubmoduleState,
+} from './types.js';
+
+// 要匯出 diff 的檔案
+export type DiffTarget = {
+  path: string;          // submodule 內部檔案時為相對於 submodule 的路徑
+  staged: boolean;
+  status?: GitChangeStatus;
+  submodule?: string;    // 所屬 submodule 的路徑（相對於 repo 根目錄）
+  hunks?: number[];      // 只匯出這些 hunk（依 getDiff 結果中的順序編號）；未指定時匯出整個檔案
+  index?: GitStatusCode;    // git status 的 X / Y（只用於匯出的中繼資料）
+  worktree?: GitStatusCode;
+};
+
+// 單一檔案 diff 的參數
+export type DiffRequest = {
+  staged: boolean;
+  path: string;
+  status?: GitChangeStatus;
+  range?: CompareRange;
+  submoduleDiff?: boolean;  // submodule 顯示內部檔案 diff，而不是 "Subproject commit" 指標
+  diffOptions?: DiffOptions;
+};
 
 type GitServiceOptions = {
   cwd: string;           // repo 路徑
@@ -17,36 +61,91 @@ export class GitService {
     this.gitBin = opts.gitBin ?? 'git';
   }
 
-  // 取得所有變更（Raw Data）
-  private async getStatusFiles(): Promise<GitChange[]> {
+  /**
+   * 取得分支資訊與所有變更（porcelain v2）
+   */
+  async getStatus(): Promise<GitStatus> {
     // -z: NUL 分隔
-    // -u: 顯示 untracked files
-    const out = await this.runGit(['status', '--porcelain', '-z', '-u']);
-    return parsePorcelainZ(out);
+    // -u: 顯示 untracked files（展開到個別檔案）
+    // --branch: 額外輸出 "# branch.*" 標頭
+    const out = await this.runGit(['status', '--porcelain=v2', '-z', '--branch', '-u']);
+    return parsePorcelainV2Z(out);
+  }
+
+  /**
+   * 分支資訊與依分組切開的變更（只執行一次 git status）
+   */
+  async getChangeGroups(): Promise<ChangeGroups & { branch: BranchInfo }> {
+    const { branch, changes } = await this.getStatus();
+    return { branch, ...groupChanges(changes) };
   }
 
   async getUnstagedFiles(): Promise<GitChange[]> {
-    const all = await this.getStatusFiles();
-    return all.filter(f => {
-      // Porcelain 格式：XY PATH
-      // X = index status, Y = worktree status
-      // Unstaged 的情況：
-      // Y = 'M' (modified), 'D' (deleted), '?' (untracked)
-      // 注意：如果 X='M' Y='M'，則同時存在 staged 與 unstaged 變更
-      const y = f.statusCode[1];
-      return y === 'M' || y === 'D' || y === '?' || y === 'A'; // 'A' 出現在 untracked ??
-    });
+    return (await this.getChangeGroups()).unstaged;
+  }
+
+  async getConflictedFiles(): Promise<GitChange[]> {
+    return (await this.getChangeGroups()).conflicted;
   }
 
   async getStagedFiles(): Promise<GitChange[]> {
-    const all = await this.getStatusFiles();
-    return all.filter(f => {
-      // Staged 的情況：
-      // X = 'M', 'A', 'D', 'R', 'C'
-      // 且不能是 '?' (untracked)
-      const x = f.statusCode[0];
-      return x !== ' ' && x !== '?';
-    });
+    return (await this.getChangeGroups()).staged;
+  }
+
+  /**
+   * repo 根目錄、目前分支與 HEAD（匯出的中繼資料）
+   */
+  async getRepoInfo(): Promise<RepoInfo> {
+    const { branch } = await this.getStatus();
+    return { root: await this.getRepoRoot(), branch: branch.head, head: branch.oid };
+  }
+
+  /**
+   * repo 根目錄（不在 repo 中時為目前的工作目錄）
+   */
+  async getRepoRoot(): Promise<string> {
+    try {
+      return await this.runGit(['rev-parse', '--show-toplevel']);
+    } catch {
+      return this.cwd;
+    }
+  }
+
+  /**
+   * 建立指向 submodule 的 GitService
+   */
+  forSubmodule(submodulePath: string): GitService {
+    return new GitService({ cwd: path.join(this.cwd, submodulePath), gitBin: this.gitBin });
+  }
+
+  /**
+   * 從 .gitmodules 讀取所有 submodule 的路徑
+   */
+  async getSubmodulePaths(): Promise<string[]> {
+    try {
+      // 輸出格式: "submodule.<name>.path <path>"
+      const out = await this.runGit(['config', '--file', '.gitmodules', '--get-regexp', '^submodule\\..*\\.path$']);
+      return out
+        .split('\n')
+        .map(line => line.slice(line.indexOf(' ') + 1).trim())
+        .filter(p => p.length > 0);
+    } catch {
+      // 沒有 .gitmodules 時 git config 會以 exit code 1 結束
+      return [];
+    }
+  }
+
+  /**
+   * 取得 submodule 內部的變更
+   */
+  async getSubmoduleChanges(submodulePath: string): Promise<{ unstaged: GitChange[]; staged: GitChange[] }> {
+    const sub = this.forSubmodule(submodulePath);
+    try {
+      const { unstaged, staged } = await sub.getChangeGroups();
+      return { unstaged, staged };
+    } catch (error) {
+      throw new Error(`Failed to get changes in submodule ${submodulePath}: ${error}`);
+    }
   }
 
   /**
@@ -88,8 +187,18 @@ export class GitService {
     }
   }
 
-  async getDiff(args: { staged: boolean; path: string; status?: string }): Promise<string> {
-    const isUntracked = args.status === '?' || args.status === '??';
+  async getDiff(args: DiffRequest): Promise<string> {
+    const isUntracked = args.status === '?';
+    const extraArgs = extraDiffArgs(args);
+
+    // 與 ref 比較（PR diff 模式）
+    if (args.range) {
+      try {
+        return await this.runGit([...rangeDiffArgs(args.range), ...extraArgs, '--', args.path], { stripFinalNewline: false });
+      } catch (error) {
+        return `(Diff failed: ${error})`;
+      }
+    }
 
     // 針對 Untracked 檔案，使用 --no-index 產生 "New File" 的標準 Diff
     if (!args.staged && isUntracked) {
@@ -101,6 +210,7 @@ export class GitService {
           'diff',
           '--no-color',
           '--no-index',
+          ...diffOptionArgs(args.diffOptions),
           '--',
           '/dev/null',
           args.path
@@ -121,7 +231,7 @@ export class GitService {
     }
 
     // 一般 Staged / Modified 邏輯
-    const base = ['diff', '--no-color'];
+    const base = ['diff', '--no-color', ...extraArgs];
     const cmd = args.staged ? [...base, '--cached'] : base;
 
     // 這裡加上容錯，避免有些詭異狀態下 git diff 報錯
@@ -132,6 +242,195 @@ export class GitService {
     }
   }
 
+  /**
+   * 取得結構化的 diff（參數同 getDiff）
+   */
+  async getParsedDiff(args: DiffRequest): Promise<DiffFile[]> {
+    return parseUnifiedDiff(await this.getDiff(args));
+  }
+
+  /**
+   * 列出本地分支、遠端分支與 tag
+   */
+  async getRefs(): Promise<GitRef[]> {
+    try {
+      const out = await this.runGit([
+        'for-each-ref',
+        '--format=%(refname)',
+        'refs/heads',
+        'refs/remotes',
+        'refs/tags',
+      ]);
+      return parseRefs(out);
+    } catch (error) {
+      throw new Error(`Failed to get refs: ${error}`);
+    }
+  }
+
+  /**
+   * 建立與 base ref 的比較範圍（以 merge-base 為基準）
+   */
+  async getCompareRange(base: string, target: CompareRange['target'] = 'HEAD'): Promise<CompareRange> {
+    try {
+      const mergeBase = await this.runGit(['merge-base', base, 'HEAD']);
+      return { base, mergeBase: mergeBase.trim(), target };
+    } catch (error) {
+      throw new Error(`Failed to find merge-base with ${base}: ${error}`);
+    }
+  }
+
+  /**
+   * 取得比較範圍內變更的檔案
+   */
+  async getRangeFiles(range: CompareRange): Promise<GitChange[]> {
+    try {
+      const out = await this.runGit([...rangeDiffArgs(range), '--name-status', '-z']);
+      const submodulePaths = new Set(await this.getSubmodulePaths());
+      // name-status 沒有 submodule 旗標，改以 .gitmodules 判斷
+      return parseNameStatusZ(out).map(f => submodulePaths.has(f.path)
+        ? { ...f, submodule: { commitChanged: true, trackedChanges: false, untrackedChanges: false } }
+        : f);
+    } catch (error) {
+      throw new Error(`Failed to get changed files since ${range.base}: ${error}`);
+    }
+  }
+
+  /**
+   * 取得最近的 commit 紀錄（由新到舊）
+   */
+  async getLog(opts?: { limit?: number }): Promise<CommitItem[]> {
+    const limit = opts?.limit ?? 200;
+    // %x1f: 欄位分隔（Unit Separator）, %x1e: 記錄分隔（Record Separator）
+    // 避免 subject 內含空白或符號時解析錯誤
+    const format = ['%H', '%h', '%an', '%ad', '%s'].join('%x1f') + '%x1e';
+    try {
+      const out = await this.runGit([
+        'log',
+        '--no-color',
+        `--max-count=${limit}`,
+        '--date=short',
+        `--format=${format}`,
+      ]);
+      return parseLog(out);
+    } catch (error) {
+      throw new Error(`Failed to get commit log: ${error}`);
+    }
+  }
+
+  /**
+   * 取得單一 commit 的完整內容（git show）
+   */
+  async getCommitDiff(hash: string, diffOptions?: DiffOptions): Promise<string> {
+    try {
+      return await this.runGit(['show', '--no-color', ...diffOptionArgs(diffOptions), hash], { stripFinalNewline: false });
+    } catch (error) {
+      return `(Show failed: ${error})`;
+    }
+  }
+
+  /**
+   * 將工作區檔案分類為 binary / text
+   * 先看 .gitattributes（binary, -diff, text），未指定時以 NUL byte 判斷
+   */
+  async classifyFiles(paths: string[]): Promise<FileClassification[]> {
+    if (paths.length === 0) return [];
+
+    const attrs = await this.getBinaryAttributes(paths);
+    const results: FileClassification[] = [];
+
+    for (const filePath of paths) {
+      const fullPath = path.join(this.cwd, filePath);
+      let size = 0;
+      let head: Buffer = Buffer.alloc(0);
+      let sniffed = false;
+
+      try {
+        size = (await fs.stat(fullPath)).size;
+        const sniff = await sniffBinary(fullPath);
+        head = sniff.head;
+        sniffed = sniff.binary;
+      } catch {
+        // 檔案不存在或無法讀取：視為 text，大小為 0
+      }
+
+      const attr = attrs.get(filePath);
+      const binary = attr ?? sniffed;
+      results.push({ path: filePath, binary, size, type: detectFileType(head, filePath) });
+    }
+
+    return results;
+  }
+
+  /**
+   * 判斷 diff 中的檔案是否為 binary（git diff --numstat 以 "-" 表示 binary）
+   * 是 binary 時回傳大小與類型，text 時回傳 null
+   */
+  async getBinaryInfo(args: DiffRequest): Promise<FileClassification | null> {
+    // Untracked 檔案沒有 diff 可比，直接檢查工作區檔案
+    if (!args.range && args.status === '?') {
+      const [info] = await this.classifyFiles([args.path]);
+      return info?.binary ? info : null;
+    }
+
+    let numstat: string;
+    try {
+      const base = args.range
+        ? rangeDiffArgs(args.range)
+        : ['diff', '--no-color', ...(args.staged ? ['--cached'] : [])];
+      numstat = await this.runGit([...base, '--numstat', '--', args.path]);
+    } catch {
+      return null;
+    }
+
+    if (!numstat.split('\n').some(line => line.startsWith('-\t-\t'))) {
+      return null;
+    }
+
+    const [info] = await this.classifyFiles([args.path]);
+    if (info && info.size > 0) return { ...info, binary: true };
+
+    // 工作區已刪除：改從 index 或 HEAD 取得大小
+    const size = await this.getBlobSize(args.staged ? `:${args.path}` : `HEAD:${args.path}`);
+    return { path: args.path, binary: true, size, type: detectFileType(Buffer.alloc(0), args.path) };
+  }
+
+  // .gitattributes 中明確指定的 binary 屬性
+  // binary 或 -diff → true；text → false；未指定的檔案不會出現在結果中
+  private async getBinaryAttributes(paths: string[]): Promise<Map<string, boolean>> {
+    const result = new Map<string, boolean>();
+    try {
+      const { stdout } = await execa(this.gitBin, ['check-attr', '-z', '--stdin', 'binary', 'diff', 'text'], {
+        cwd: this.cwd,
+        input: paths.join('\0') + '\0',
+      });
+
+      // 輸出格式: <path>\0<attribute>\0<value>\0
+      const fields = stdout.split('\0');
+      for (let i = 0; i + 2 < fields.length; i += 3) {
+        const filePath = fields[i]!;
+        const attr = fields[i + 1];
+        const value = fields[i + 2];
+
+        if ((attr === 'binary' && value === 'set') || (attr === 'diff' && value === 'unset')) {
+          result.set(filePath, true);
+        } else if (attr === 'text' && value === 'set' && !result.has(filePath)) {
+          result.set(filePath, false);
+        }
+      }
+    } catch {
+      // check-attr 失敗時只依內容判斷
+    }
+    return result;
+  }
+
+  private async getBlobSize(object: string): Promise<number> {
+    try {
+      return Number(await this.runGit(['cat-file', '-s', object])) || 0;
+    } catch {
+      return 0;
+    }
+  }
+
   private async runGit(
     gitArgs: string[],
     opts?: { stripFinalNewline?: boolean }
@@ -144,20 +443,104 @@ export class GitService {
     return stdout;
   }
 
+  /**
+   * 取得衝突檔案某個 stage 的內容（git show :<stage>:<path>）
+   * 該 stage 不存在時（例如兩邊都新增的 AA 沒有 base）回傳 null
+   */
+  async getConflictStage(filePath: string, stage: ConflictStage): Promise<string | null> {
+    try {
+      return await this.runGit(['show', `:${stage}:${filePath}`], { stripFinalNewline: false });
+    } catch {
+      return null;
+    }
+  }
+
+  // 匯出衝突 bundle：base / ours / theirs 三個版本 + 工作區中含衝突標記的檔案
+  async exportConflictBundle(options: {
+    paths: string[];
+    output: OutputSink;
+  }): Promise<OutputResult> {
+    const { output, ...rest } = options;
+    return writeOutput(output, await this.getConflictBundle(rest));
+  }
+
+  /**
+   * 產生衝突 bundle：每個檔案的 base / ours / theirs 與工作區中含衝突標記的內容
+   */
+  async getConflictBundle(options: { paths: string[] }): Promise<string> {
+    const { paths } = options;
+    const stageLabels: Array<[ConflictStage, string]> = [
+      [1, 'BASE'],
+      [2, 'OURS'],
+      [3, 'THEIRS'],
+    ];
+
+    const parts: string[] = [];
+
+    for (const filePath of paths) {
+      let section = `${'='.repeat(80)}\n`;
+      section += `Conflict: ${filePath}\n`;
+      section += `${'='.repeat(80)}\n`;
+
+      for (const [stage, label] of stageLabels) {
+        const content = await this.getConflictStage(filePath, stage);
+        section += `\n---------- ${label} (:${stage}:${filePath}) ----------\n`;
+        section += content ?? '(not present in this stage)\n';
+      }
+
+      section += `\n---------- WORKING (conflicted) ----------\n`;
+      try {
+        section += await fs.readFile(path.join(this.cwd, filePath), 'utf8');
+      } catch {
+        section += '(deleted in working tree)\n';
+      }
+
+      parts.push(section);
+    }
+
+    return parts.join('\n');
+  }
+
   // 匯出單一檔案 diff
   async exportDiff(options: {
     path: string;
     staged: boolean;
-    outputPath: string;
-    status?: string;
-  }): Promise<void> {
-    const { path, staged, outputPath, status } = options;
+    output: OutputSink;
+    status?: GitChangeStatus;
+    range?: CompareRange;
+    submoduleDiff?: boolean;
+    wordDiff?: boolean;       // 以 --word-diff=plain 輸出 [-舊-]{+新+}
+    diffOptions?: DiffOptions;
+  }): Promise<OutputResult> {
+    const { output, ...rest } = options;
+    return writeOutput(output, await this.getSingleDiff(rest));
+  }
+
+  // 產生單一檔案 diff（與 getDiff 不同，失敗時拋出錯誤而不是回傳說明文字）
+  async getSingleDiff(options: {
+    path: string;
+    staged: boolean;
+    status?: GitChangeStatus;
+    range?: CompareRange;
+    submoduleDiff?: boolean;
+    wordDiff?: boolean;
+    diffOptions?: DiffOptions;
+  }): Promise<string> {
+    const { path, staged, status, range, submoduleDiff, wordDiff, diffOptions } = options;
     
-    const isUntracked = status === '??' || status === '?';
+    const isUntracked = status === '?';
+    const extraArgs = extraDiffArgs({ submoduleDiff, wordDiff, diffOptions });
     
     let diffContent: string;
     
-    if (!staged && isUntracked) {
+    if (range) {
+      // 與 ref 比較
+      try {
+        diffContent = await this.runGit([...rangeDiffArgs(range), ...extraArgs, '--', path], { stripFinalNewline: false });
+      } catch (error) {
+        throw new Error(`Diff failed: ${error}`);
+      }
+    } else if (!staged && isUntracked) {
       // 處理 Untracked 檔案
       try {
         // 使用 /dev/null 或 NUL (Windows)
@@ -166,6 +549,8 @@ export class GitService {
           'diff',
           '--no-color',
           '--no-index',
+          ...diffOptionArgs(diffOptions),
+          ...(wordDiff ? ['--word-diff=plain'] : []),
           '--',
           nullPath,
           path
@@ -186,7 +571,7 @@ export class GitService {
       }
     } else {
       // 一般 Staged / Modified 邏輯
-      const args = ['diff', '--no-color'];
+      const args = ['diff', '--no-color', ...extraArgs];
       if (staged) {
         args.push('--cached');
       }
@@ -199,40 +584,321 @@ export class GitService {
       }
     }
     
-    // 寫入檔案
-    await fs.writeFile(outputPath, diffContent, 'utf8');
+    return diffContent;
+  }
+
+  /**
+   * 列出所有 stash 及其變更檔案
+   */
+  async getStashes(): Promise<StashItem[]> {
+    let out: string;
+    try {
+      out = await this.runGit(['stash', 'list', '--format=%H%x1f%gs%x1f%ad%x1e', '--date=short']);
+    } catch (error) {
+      throw new Error(`Failed to list stashes: ${error}`);
+    }
+
+    const stashes: StashItem[] = [];
+    const records = out.split('\x1e').map(r => r.replace(/^\n+/, '')).filter(Boolean);
+
+    for (let index = 0; index < records.length; index++) {
+      const [hash, message, date] = records[index]!.split('\x1f');
+      if (!hash) continue;
+
+      const files = parseNameStatusZ(await this.runStashShow(index, ['--name-status', '-z']));
+      stashes.push({ index, hash, message: message ?? '', date: date ?? '', files });
+    }
+    return stashes;
+  }
+
+  /**
+   * 取得 stash 的 patch（包含 -u 儲存的 untracked 檔案）
+   */
+  async getStashDiff(index: number, diffOptions?: DiffOptions): Promise<string> {
+    try {
+      return await this.runStashShow(index, ['-p', '--no-color', ...diffOptionArgs(diffOptions)], { stripFinalNewline: false });
+    } catch (error) {
+      return `(Stash show failed: ${error})`;
+    }
+  }
+
+  // 匯出單一 stash 的 patch
+  async exportStash(options: { index: number; output: OutputSink; diffOptions?: DiffOptions }): Promise<OutputResult> {
+    const { output, ...rest } = options;
+    return writeOutput(output, await this.getStashPatch(rest));
+  }
+
+  // stash 的完整 patch（失敗時拋出錯誤）
+  async getStashPatch(options: { index: number; diffOptions?: DiffOptions }): Promise<string> {
+    const { index, diffOptions } = options;
+    try {
+      return await this.runStashShow(index, ['-p', '--no-color', ...diffOptionArgs(diffOptions)], { stripFinalNewline: false });
+    } catch (error) {
+      throw new Error(`Stash show failed: ${error}`);
+    }
+  }
+
+  // git stash show，並盡量包含 untracked 檔案
+  // --include-untracked 需要 git 2.32+，舊版 git 會報錯，此時退回不含 untracked 的結果
+  private async runStashShow(
+    index: number,
+    showArgs: string[],
+    opts?: { stripFinalNewline?: boolean }
+  ): Promise<string> {
+    const ref = `stash@{${index}}`;
+    try {
+      return await this.runGit(['stash', 'show', '--include-untracked', ...showArgs, ref], opts);
+    } catch {
+      return await this.runGit(['stash', 'show', ...showArgs, ref], opts);
+    }
+  }
+
+  // 匯出多個 commit
+  // - 連續的 commit：合併為單一 git diff <oldest>^ <newest>
+  // - 不連續的 commit：逐一 git show 並加上標題後串接
+  async exportCommits(options: {
+    commits: CommitItem[];  // 由新到舊排序（與 getLog 相同）
+    output: OutputSink;
+    diffOptions?: DiffOptions;
+  }): Promise<OutputResult> {
+    const { output, ...rest } = options;
+    return writeOutput(output, await this.getCommitsExport(rest));
+  }
+
+  // 產生多個 commit 的匯出內容
+  async getCommitsExport(options: {
+    commits: CommitItem[];
+    diffOptions?: DiffOptions;
+  }): Promise<string> {
+    const { commits } = options;
+    const optionArgs = diffOptionArgs(options.diffOptions);
+
+    if (commits.length === 0) {
+      return '';
+    }
+
+    const parts: string[] = [];
+
+    if (commits.length > 1 && await this.isContiguous(commits)) {
+      const newest = commits[0]!;
+      const oldest = commits[commits.length - 1]!;
+      const base = await this.getParentOrEmptyTree(oldest.hash);
+
+      parts.push(`Range: ${oldest.shortHash}^..${newest.shortHash} (${commits.length} commits)`);
+      for (const commit of commits) {
+        parts.push(`Commit: ${commit.hash} - ${commit.subject}`);
+      }
+      parts.push('');
+
+      try {
+        parts.push(await this.runGit(['diff', '--no-color', ...optionArgs, base, newest.hash], { stripFinalNewline: false }));
+      } catch (error) {
+        throw new Error(`Diff failed: ${error}`);
+      }
+
+      return parts.join('\n');
+    }
+
+    // 不連續：逐一 git show
+    for (const commit of commits) {
+      try {
+        const content = await this.runGit(['show', '--no-color', ...optionArgs, commit.hash], { stripFinalNewline: false });
+        parts.push(`Commit: ${commit.hash} - ${commit.subject}\n\n${content}`);
+      } catch (error) {
+        parts.push(`(Error exporting commit ${commit.hash}: ${error})`);
+      }
+    }
+
+    return parts.join('\n\n');
+  }
+
+  // 檢查 commit 是否為連續（每個 commit 的 first parent 都是下一個 commit）
+  private async isContiguous(commits: CommitItem[]): Promise<boolean> {
+    for (let i = 0; i < commits.length - 1; i++) {
+      const newer = commits[i]!;
+      const older = commits[i + 1]!;
+      const parents = await this.getParents(newer.hash);
+      if (parents[0] !== older.hash) return false;
+    }
+    return true;
+  }
+
+  private async getParents(hash: string): Promise<string[]> {
+    // 輸出格式: "<hash> <parent1> <parent2> ..."
+    const out = await this.runGit(['rev-list', '--parents', '--max-count=1', hash]);
+    return out.trim().split(' ').slice(1);
+  }
+
+  // root commit 沒有 parent，改用空 tree 作為比較基準
+  private async getParentOrEmptyTree(hash: string): Promise<string> {
+    const parents = await this.getParents(hash);
+    if (parents[0]) return parents[0];
+
+    const { stdout } = await execa(this.gitBin, ['hash-object', '-t', 'tree', '--stdin'], {
+      cwd: this.cwd,
+      input: '',
+    });
+    return stdout.trim();
   }
 
   // 匯出多檔合併 diff
   async exportMultipleDiffs(options: {
-    paths: Array<{ path: string; staged: boolean; status?: string }>;
-    outputPath: string;
-  }): Promise<void> {
-    const { paths, outputPath } = options;
+    paths: DiffTarget[];
+    output: OutputSink;
+    range?: CompareRange;
+    submoduleDiff?: boolean;
+    wordDiff?: boolean;
+    diffOptions?: DiffOptions;
+    format?: ExportFormat;
+  }): Promise<OutputResult> {
+    const { output, ...rest } = options;
+    return writeOutput(output, await this.getDiffExport(rest));
+  }
+
+  /**
+   * 依匯出格式產生多檔 diff
+   * text 為原本的輸出（git diff 直接串接）；其他格式先逐檔整理成 DiffEntry 再輸出
+   */
+  async getDiffExport(options: {
+    paths: DiffTarget[];
+    range?: CompareRange;
+    submoduleDiff?: boolean;
+    wordDiff?: boolean;
+    diffOptions?: DiffOptions;
+    withContents?: boolean;   // 每個檔案附上目前的完整內容
+    format?: ExportFormat;
+  }): Promise<string> {
+    const { format = 'text', withContents, ...rest } = options;
+    if (format === 'text') {
+      return withContents ? this.getDiffsWithContents(rest) : this.getMultipleDiffs(rest);
+    }
+    const entries = await this.getDiffEntries({ ...rest, ...(withContents !== undefined && { withContents }) });
+    return formatDiffEntries(entries, format, await this.getRepoInfo());
+  }
+
+  /**
+   * 逐一取得每個檔案的 diff、狀態與增刪行數
+   */
+  async getDiffEntries(options: {
+    paths: DiffTarget[];
+    range?: CompareRange;
+    submoduleDiff?: boolean;
+    wordDiff?: boolean;
+    diffOptions?: DiffOptions;
+    withContents?: boolean;
+  }): Promise<DiffEntry[]> {
+    const { paths, withContents, ...diffArgs } = options;
+    // word diff 的輸出無法解析，行數統計另外以一般 diff 計算
+    const { wordDiff, ...plainArgs } = diffArgs;
+    const entries: DiffEntry[] = [];
+
+    for (const target of paths) {
+      const prefix = target.submodule ? `${target.submodule}/` : '';
+
+      let diff: string;
+      try {
+        diff = await this.getMultipleDiffs({ paths: [target], ...diffArgs });
+      } catch (error) {
+        diff = `(Error exporting diff: ${error})\n`;
+      }
+      const plain = wordDiff
+        ? await this.getMultipleDiffs({ paths: [target], ...plainArgs }).catch(() => '')
+        : diff;
+      const files = parseUnifiedDiff(plain);
+      const binary = files.some(f => f.isBinary) || plain.startsWith('[binary file skipped');
+      const renamed = files.find(f => f.oldPath && f.newPath && f.oldPath !== f.newPath);
+
+      const entry: DiffEntry = {
+        path: `${prefix}${target.path}`,
+        status: target.status ?? toStatusFromDiff(files[0]),
+        staged: target.staged,
+        additions: binary ? null : files.reduce((sum, f) => sum + f.additions, 0),
+        deletions: binary ? null : files.reduce((sum, f) => sum + f.deletions, 0),
+        diff,
+      };
+      if (renamed?.oldPath) entry.oldPath = `${prefix}${renamed.oldPath}`;
+      if (target.index) entry.index = target.index;
+      if (target.worktree) entry.worktree = target.worktree;
+      if (withContents) {
+        const contents = await this.getTargetContents(target, diffArgs.range);
+        entry.content = { source: contents.source, text: contents.content };
+      }
+      entries.push(entry);
+    }
+
+    return entries;
+  }
+
+  // 產生多檔合併 diff
+  async getMultipleDiffs(options: {
+    paths: DiffTarget[];
+    range?: CompareRange;
+    submoduleDiff?: boolean;  // submodule 顯示內部檔案 diff，而不是 "Subproject commit" 指標
+    wordDiff?: boolean;       // 以 --word-diff=plain 輸出 [-舊-]{+新+}
+    diffOptions?: DiffOptions;
+  }): Promise<string> {
+    const { paths, range, submoduleDiff, wordDiff, diffOptions } = options;
     
     if (paths.length === 0) {
-      // 如果沒有檔案，建立空檔案
-      await fs.writeFile(outputPath, '', 'utf8');
-      return;
+      return '';
+    }
+
+    const extraArgs = extraDiffArgs({ submoduleDiff, wordDiff, diffOptions });
+    const partialOptions = {
+      ...(submoduleDiff !== undefined && { submoduleDiff }),
+      ...(wordDiff !== undefined && { wordDiff }),
+      ...(diffOptions && { diffOptions }),
+    };
+
+    // 只選了部分 hunk 的檔案另外處理
+    const partialPaths = paths.filter(p => !p.submodule && p.hunks);
+
+    // 與 ref 比較：所有檔案使用同一個範圍，一次 diff 完成
+    if (range) {
+      // submodule 的目標不支援部分 hunk，一律整個 diff
+      const fullPaths = paths.filter(p => p.submodule || !p.hunks);
+      try {
+        const parts: string[] = [];
+        if (fullPaths.length > 0) {
+          parts.push(await this.runGit(
+            [...rangeDiffArgs(range), ...extraArgs, '--', ...fullPaths.map(p => p.path)],
+            { stripFinalNewline: false }
+          ));
+        }
+        for (const target of partialPaths) {
+          parts.push(await this.getPartialDiff(target, { range, ...partialOptions }));
+        }
+        return parts.filter(Boolean).join('');
+      } catch (error) {
+        throw new Error(`Diff failed: ${error}`);
+      }
+    }
+
+    // submodule 內部的檔案交給 submodule 自己的 GitService 處理
+    const ownPaths = paths.filter(p => !p.submodule && !p.hunks);
+    const bySubmodule = new Map<string, DiffTarget[]>();
+    for (const p of paths) {
+      if (!p.submodule) continue;
+      const { submodule, ...inner } = p;
+      const list = bySubmodule.get(submodule) ?? [];
+      list.push(inner);
+      bySubmodule.set(submodule, list);
     }
     
     // 更智能的分組處理：先分離 tracked 和 untracked
-    const untrackedPaths = paths.filter(p => p.status === '??' || p.status === '?');
-    const trackedPaths = paths.filter(p => p.status !== '??' && p.status !== '?');
+    const untrackedPaths = ownPaths.filter(p => p.status === '?');
+    const trackedPaths = ownPaths.filter(p => p.status !== '?');
     
     // 從 tracked 中分離 staged 和 unstaged
     const stagedPaths = trackedPaths.filter(p => p.staged).map(p => p.path);
     const unstagedPaths = trackedPaths.filter(p => !p.staged).map(p => p.path);
     
-    // 清空輸出檔案
-    await fs.writeFile(outputPath, '', 'utf8');
-    
     const parts: string[] = [];
     
     // 1. Unstaged tracked files
     if (unstagedPaths.length > 0) {
       try {
-        const args = ['diff', '--no-color', '--'];
+        const args = ['diff', '--no-color', ...extraArgs, '--'];
         args.push(...unstagedPaths);
         const diffContent = await this.runGit(args, { stripFinalNewline: false });
         if (diffContent) {
@@ -246,7 +912,7 @@ export class GitService {
     // 2. Staged files
     if (stagedPaths.length > 0) {
       try {
-        const args = ['diff', '--no-color', '--cached', '--'];
+        const args = ['diff', '--no-color', '--cached', ...extraArgs, '--'];
         args.push(...stagedPaths);
         const diffContent = await this.runGit(args, { stripFinalNewline: false });
         if (diffContent) {
@@ -260,12 +926,22 @@ export class GitService {
     // 3. Untracked files（需要單獨處理，使用 --no-index）
     if (untrackedPaths.length > 0) {
       const nullPath = process.platform === 'win32' ? 'NUL' : '/dev/null';
+      const classifications = await this.classifyFiles(untrackedPaths.map(p => p.path));
       for (const { path: filePath } of untrackedPaths) {
+        // Binary 檔案只輸出一行說明
+        const info = classifications.find(c => c.path === filePath);
+        if (info?.binary) {
+          parts.push(binaryPlaceholder(info));
+          continue;
+        }
+
         try {
           const { stdout, exitCode } = await execa(this.gitBin, [
             'diff',
             '--no-color',
             '--no-index',
+            ...diffOptionArgs(diffOptions),
+            ...(wordDiff ? ['--word-diff=plain'] : []),
             '--',
             nullPath,
             filePath
@@ -283,49 +959,519 @@ export class GitService {
         }
       }
     }
+
+    // 4. 只選了部分 hunk 的檔案：解析後只保留選取的 hunk，並重新計算 hunk 標頭
+    for (const target of partialPaths) {
+      try {
+        const content = await this.getPartialDiff(target, partialOptions);
+        if (content) {
+          parts.push(content);
+        }
+      } catch (error) {
+        parts.push(`(Error exporting hunks of ${target.path}: ${error})`);
+      }
+    }
+
+    // 5. Submodule 內部的檔案
+    for (const [submodulePath, innerPaths] of bySubmodule) {
+      try {
+        const inner = await this.forSubmodule(submodulePath).getMultipleDiffs({
+          paths: innerPaths,
+          ...partialOptions,
+        });
+        if (inner) {
+          parts.push(`Submodule: ${submodulePath}\n\n${inner}`);
+        }
+      } catch (error) {
+        parts.push(`(Error exporting submodule ${submodulePath}: ${error})`);
+      }
+    }
     
     // 合併所有內容
-    const finalContent = parts.join('\n\n');
-    await fs.writeFile(outputPath, finalContent, 'utf8');
+    return parts.join('\n\n');
+  }
+
+  /**
+   * 一次取得整個 diff 並依檔案切開，key 為檔案路徑（rename 時為新路徑）
+   * 用於估算每個檔案匯出後的大小；untracked 檔案以工作區內容組成新增檔案的 diff
+   */
+  async getDiffsByFile(options: {
+    staged: boolean;
+    range?: CompareRange;
+    untracked?: string[];
+    submoduleDiff?: boolean;
+    diffOptions?: DiffOptions;
+  }): Promise<Map<string, string>> {
+    const { staged, range, untracked = [] } = options;
+    const result = new Map<string, string>();
+
+    const args = range
+      ? rangeDiffArgs(range)
+      : ['diff', '--no-color', ...(staged ? ['--cached'] : [])];
+    let output = '';
+    try {
+      output = await this.runGit([...args, ...extraDiffArgs(options)], { stripFinalNewline: false });
+    } catch {
+      // 取不到 diff 時回傳空結果，估算值只是不顯示
+    }
+
+    for (const chunk of output.split(/^(?=diff --(?:git|cc|combined) )/m)) {
+      const [file] = parseUnifiedDiff(chunk);
+      const filePath = file?.newPath ?? file?.oldPath;
+      if (filePath) result.set(filePath, chunk);
+    }
+
+    const classifications = await this.classifyFiles(untracked);
+    for (const info of classifications) {
+      if (info.binary) {
+        result.set(info.path, binaryPlaceholder(info));
+        continue;
+      }
+      try {
+        const content = await fs.readFile(path.join(this.cwd, info.path), 'utf8');
+        const lines = content.split('\n');
+        if (lines[lines.length - 1] === '') lines.pop();
+        result.set(info.path, [
+          `diff --git a/${info.path} b/${info.path}`,
+          'new file mode 100644',
+          '--- /dev/null',
+          `+++ b/${info.path}`,
+          `@@ -0,0 +1,${lines.length} @@`,
+          ...lines.map(line => `+${line}`),
+          '',
+        ].join('\n'));
+      } catch {
+        // 讀不到的檔案不估算
+      }
+    }
+
+    return result;
+  }
+
+  // 匯出 diff 並附上每個檔案的完整內容
+  async exportDiffsWithContents(options: {
+    paths: DiffTarget[];
+    output: OutputSink;
+    range?: CompareRange;
+    submoduleDiff?: boolean;
+    wordDiff?: boolean;
+    diffOptions?: DiffOptions;
+    format?: ExportFormat;
+  }): Promise<OutputResult> {
+    const { output, ...rest } = options;
+    return writeOutput(output, await this.getDiffExport({ ...rest, withContents: true }));
   }
+
+  /**
+   * 逐一輸出每個檔案的 diff 與目前的完整內容（讓 LLM 看得到 diff 周圍的程式碼）
+   */
+  async getDiffsWithContents(options: {
+    paths: DiffTarget[];
+    range?: CompareRange;
+    submoduleDiff?: boolean;
+    wordDiff?: boolean;
+    diffOptions?: DiffOptions;
+  }): Promise<string> {
+    const { paths, ...diffArgs } = options;
+    const parts: string[] = [];
+
+    for (const target of paths) {
+      const displayPath = target.submodule ? `${target.submodule}/${target.path}` : target.path;
+      const state = diffArgs.range ? 'compare' : target.staged ? 'staged' : 'unstaged';
+
+      let section = `${'='.repeat(80)}\n`;
+      section += `File: ${displayPath} (${target.status ? `${target.status}, ` : ''}${state})\n`;
+      section += `${'='.repeat(80)}\n`;
+
+      section += `\n---------- DIFF ----------\n`;
+      try {
+        const diff = await this.getMultipleDiffs({ paths: [target], ...diffArgs });
+        section += diff || '(no changes)\n';
+      } catch (error) {
+        section += `(Error exporting diff: ${error})\n`;
+      }
+
+      const contents = await this.getTargetContents(target, diffArgs.range);
+      section += `\n---------- CONTENT: ${displayPath} (${contents.source}) ----------\n`;
+      section += contents.content;
+
+      parts.push(section);
+    }
+
+    return parts.join('\n');
+  }
+
+  // 讀取 diff 目標目前的完整內容（submodule 內部檔案交給 submodule 的 GitService）
+  private async getTargetContents(target: DiffTarget, range?: CompareRange): Promise<{ source: string; content: string }> {
+    const { submodule, ...inner } = target;
+    const service = submodule ? this.forSubmodule(submodule) : this;
+    // submodule 的比較範圍屬於外層 repo，內部檔案只讀取工作區/index
+    return service.getCurrentContents(inner, submodule ? undefined : range);
+  }
+
+  /**
+   * 讀取檔案目前的完整內容
+   * - 工作區變更：工作區檔案；staged：index（git show :path）
+   * - 與 ref 比較：HEAD 或工作區（依比較目標）
+   * - 已刪除的檔案：改用刪除前的版本（HEAD 或 merge-base）
+   */
+  private async getCurrentContents(
+    target: DiffTarget,
+    range?: CompareRange
+  ): Promise<{ source: string; content: string }> {
+    const filePath = target.path;
+    const binary = await this.getBinaryInfo({
+      path: filePath,
+      staged: target.staged,
+      ...(target.status && { status: target.status }),
+      ...(range && { range }),
+    });
+    if (binary) {
+      return { source: 'binary', content: `${binaryPlaceholder(binary)}\n` };
+    }
+
+    // 依序嘗試，第一個以外的來源代表檔案已被刪除
+    const sources = range
+      ? [range.target === 'HEAD' ? `HEAD:${filePath}` : 'worktree', `${range.mergeBase}:${filePath}`]
+      : target.staged ? [`:${filePath}`, `HEAD:${filePath}`] : ['worktree', `HEAD:${filePath}`];
+
+    for (const [i, source] of sources.entries()) {
+      try {
+        const content = source === 'worktree'
+          ? await fs.readFile(path.join(this.cwd, filePath), 'utf8')
+          : await this.runGit(['show', source], { stripFinalNewline: false });
+        const label = source === 'worktree' ? 'worktree' : source.startsWith(':') ? `index ${source}` : source;
+        return { source: i === 0 ? label : `${label}, deleted`, content };
+      } catch {
+        // 嘗試下一個來源
+      }
+    }
+
+    return { source: 'unavailable', content: '(contents not available)\n' };
+  }
+
+  /**
+   * 取得只包含選取 hunk 的 diff
+   * hunk 索引依 diff 中出現的順序編號（跨越多個檔案時連續編號，例如 submodule 的內部 diff）
+   */
+  private async getPartialDiff(
+    target: DiffTarget,
+    options: { range?: CompareRange; submoduleDiff?: boolean; wordDiff?: boolean; diffOptions?: DiffOptions }
+  ): Promise<string> {
+    const { hunks = [], submodule: _, ...request } = target;
+    // word diff 的輸出無法解析，先取得一般 diff，輸出時再轉換
+    const { wordDiff, ...diffOptions } = options;
+    const files = await this.getParsedDiff({ ...request, ...diffOptions });
+
+    let base = 0;
+    const selected = files.map(file => {
+      const indices = hunks.filter(i => i >= base && i < base + file.hunks.length).map(i => i - base);
+      base += file.hunks.length;
+      return selectHunks(file, indices);
+    });
+
+    return formatUnifiedDiff(
+      selected.filter(file => file.hunks.length > 0),
+      { ...(wordDiff !== undefined && { wordDiff }) }
+    );
+  }
+}
+
+/**
+ * 將 git status 的變更分到檔案列表的分組
+ */
+function groupChanges(changes: GitChange[]): ChangeGroups {
+  return {
+    // 尚未解決的衝突（UU, AA, DD, AU, UA, DU, UD）
+    conflicted: changes.filter(f => f.kind === 'unmerged'),
+    // Unstaged：工作區有變更或 untracked（衝突檔案另外列在 conflicted）
+    unstaged: changes.filter(f => f.kind === 'untracked' || (f.kind !== 'unmerged' && f.worktree !== '.')),
+    // Staged：index 相對於 HEAD 有變更（衝突檔案不算 staged）
+    staged: changes.filter(f => (f.kind === 'changed' || f.kind === 'renamed') && f.index !== '.'),
+  };
 }
 
 // ---- parser ----
 
-// git status --porcelain -z：以 NUL 分隔每筆，格式為 "XY path"
-function parsePorcelainZ(output: string): GitChange[] {
+// git status --porcelain=v2 -z --branch
+//   # branch.oid <commit> | (initial)
+//   # branch.head <branch> | (detached)
+//   # branch.upstream <upstream>
+//   # branch.ab +<ahead> -<behind>
+//   1 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <path>
+//   2 <XY> <sub> <mH> <mI> <mW> <hH> <hI> <X><score> <path>\0<origPath>
+//   u <XY> <sub> <m1> <m2> <m3> <mW> <h1> <h2> <h3> <path>
+//   ? <path>
+export function parsePorcelainV2Z(output: string): GitStatus {
+  const branch: BranchInfo = { oid: null, head: null };
+  const changes: GitChange[] = [];
+  if (!output) return { branch, changes };
+
+  const entries = output.split('\0');
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry) continue;
+
+    switch (entry[0]) {
+      case '#': {
+        parseBranchHeader(entry, branch);
+        break;
+      }
+      case '1': {
+        // 前 8 個欄位之後全部都是路徑（路徑可能含空白）
+        const [, xy, sub, mH, mI, mW, , , path] = splitFields(entry, 9);
+        if (!xy || !path) break;
+        changes.push(buildChange({
+          kind: 'changed',
+          xy,
+          path,
+          sub,
+          modes: { head: mH ?? '', index: mI ?? '', worktree: mW ?? '' },
+        }));
+        break;
+      }
+      case '2': {
+        const [, xy, sub, mH, mI, mW, , , xScore, path] = splitFields(entry, 10);
+        const oldPath = entries[++i]; // -z 模式下 origPath 為下一筆
+        if (!xy || !path) break;
+        changes.push(buildChange({
+          kind: 'renamed',
+          xy,
+          path,
+          sub,
+          modes: { head: mH ?? '', index: mI ?? '', worktree: mW ?? '' },
+          ...(oldPath && { oldPath }),
+          ...(xScore && { score: Number(xScore.slice(1)) }),
+        }));
+        break;
+      }
+      case 'u': {
+        const [, xy, sub, , , , , , , , path] = splitFields(entry, 11);
+        if (!xy || !path) break;
+        changes.push(buildChange({ kind: 'unmerged', xy, path, sub }));
+        break;
+      }
+      case '?': {
+        changes.push({
+          path: entry.slice(2),
+          kind: 'untracked',
+          index: '?',
+          worktree: '?',
+          status: '?',
+        });
+        break;
+      }
+      // '!'（ignored）只有加上 --ignored 才會出現，這裡不處理
+    }
+  }
+
+  return { branch, changes };
+}
+
+function parseBranchHeader(entry: string, branch: BranchInfo): void {
+  const [, key, ...rest] = entry.split(' ');
+  const value = rest.join(' ');
+
+  switch (key) {
+    case 'branch.oid':
+      branch.oid = value === '(initial)' ? null : value;
+      break;
+    case 'branch.head':
+      branch.head = value === '(detached)' ? null : value;
+      break;
+    case 'branch.upstream':
+      branch.upstream = value;
+      break;
+    case 'branch.ab': {
+      const match = /^\+(\d+) -(\d+)$/.exec(value);
+      if (match) {
+        branch.ahead = Number(match[1]);
+        branch.behind = Number(match[2]);
+      }
+      break;
+    }
+  }
+}
+
+// 以空白切出前 count - 1 個欄位，剩下的全部當作最後一個欄位
+function splitFields(entry: string, count: number): string[] {
+  const fields: string[] = [];
+  let rest = entry;
+  for (let i = 0; i < count - 1; i++) {
+    const space = rest.indexOf(' ');
+    if (space < 0) break;
+    fields.push(rest.slice(0, space));
+    rest = rest.slice(space + 1);
+  }
+  fields.push(rest);
+  return fields;
+}
+
+function buildChange(args: {
+  kind: GitChange['kind'];
+  xy: string;
+  path: string;
+  sub?: string | undefined;
+  modes?: FileModes;
+  oldPath?: string;
+  score?: number;
+}): GitChange {
+  const index = toStatusCode(args.xy[0]);
+  const worktree = toStatusCode(args.xy[1]);
+  const submodule = parseSubmoduleState(args.sub);
+
+  // 代表性狀態：衝突 > 工作區 > index
+  let status: GitChangeStatus;
+  if (args.kind === 'unmerged') {
+    status = 'U';
+  } else if (worktree !== '.') {
+    status = worktree;
+  } else {
+    status = index === '.' ? 'M' : index;
+  }
+
+  return {
+    path: args.path,
+    kind: args.kind,
+    index,
+    worktree,
+    status,
+    ...(args.oldPath !== undefined && { oldPath: args.oldPath }),
+    ...(args.score !== undefined && { score: args.score }),
+    ...(submodule && { submodule }),
+    ...(args.modes && { modes: args.modes }),
+  };
+}
+
+function toStatusCode(ch: string | undefined): GitStatusCode {
+  switch (ch) {
+    case 'A': case 'M': case 'D': case 'R': case 'C':
+    case 'T': case 'U': case 'X': case 'B': case '?':
+      return ch;
+    default:
+      return '.';
+  }
+}
+
+// "N..." → 不是 submodule；"S<c><m><u>" → submodule
+function parseSubmoduleState(sub: string | undefined): SubmoduleState | undefined {
+  if (!sub || sub[0] !== 'S') return undefined;
+  return {
+    commitChanged: sub[1] === 'C',
+    trackedChanges: sub[2] === 'M',
+    untrackedChanges: sub[3] === 'U',
+  };
+}
+
+// diff 選項、submodule 與 word diff 的額外參數
+function extraDiffArgs(options: {
+  submoduleDiff?: boolean | undefined;
+  wordDiff?: boolean | undefined;
+  diffOptions?: DiffOptions | undefined;
+}): string[] {
+  return [
+    ...diffOptionArgs(options.diffOptions),
+    ...(options.submoduleDiff ? ['--submodule=diff'] : []),
+    ...(options.wordDiff ? ['--word-diff=plain'] : []),
+  ];
+}
+
+// 沒有指定狀態時，由解析後的 diff 推斷
+function toStatusFromDiff(file: DiffFile | undefined): GitChangeStatus {
+  switch (file?.status) {
+    case 'added': return 'A';
+    case 'deleted': return 'D';
+    case 'renamed': return 'R';
+    case 'copied': return 'C';
+    default: return 'M';
+  }
+}
+
+// 比較範圍的 git diff 參數
+// target = 'HEAD'    → git diff <merge-base> HEAD
+// target = 'worktree'→ git diff <merge-base>（包含未 commit 的變更）
+function rangeDiffArgs(range: CompareRange): string[] {
+  const args = ['diff', '--no-color', '-M', range.mergeBase];
+  if (range.target === 'HEAD') args.push('HEAD');
+  return args;
+}
+
+// git diff --name-status -z：以 NUL 分隔，格式為 "X\0path" 或 "R100\0old\0new"
+function parseNameStatusZ(output: string): GitChange[] {
   if (!output) return [];
   const entries = output.split('\0').filter(Boolean);
   const results: GitChange[] = [];
 
   for (let i = 0; i < entries.length; i++) {
-    const entry = entries[i];
-    if (!entry || entry.length < 3) continue; // 至少需要 "XY " 或 "XY\0"
-
-    const statusCode = entry.slice(0, 2);
-    const path = entry.slice(3); // porcelain 格式: "XY path"
+    const code = entries[i];
+    if (!code) continue;
+    const status = toStatusCode(code[0]);
+    if (status === '.') continue;
 
-    // 處理 Rename: "R  newpath\0oldpath" 在 -z 模式下會分兩筆 entry 存
-    // 但 git status --porcelain -z 的 rename 格式是：
-    // R  newpath\0oldpath
-    if (statusCode[0] === 'R' || statusCode[1] === 'R') {
-      const oldPath = entries[++i]; // 下一筆是 oldPath
-      if (oldPath) {
+    if (status === 'R' || status === 'C') {
+      const oldPath = entries[++i];
+      const path = entries[++i];
+      if (oldPath && path) {
         results.push({
           path,
-          statusCode,
-          status: 'R',
-          oldPath
+          oldPath,
+          kind: 'renamed',
+          index: status,
+          worktree: '.',
+          status,
+          score: Number(code.slice(1)),
         });
       }
     } else {
-      results.push({
-        path,
-        statusCode,
-        status: statusCode.trim(), // " M" -> "M", "??" -> "??"
-      });
+      const path = entries[++i];
+      if (path) {
+        results.push({ path, kind: 'changed', index: status, worktree: '.', status });
+      }
+    }
+  }
+  return results;
+}
+
+// git for-each-ref --format=%(refname)
+function parseRefs(output: string): GitRef[] {
+  const results: GitRef[] = [];
+
+  for (const line of output.split('\n')) {
+    const refname = line.trim();
+    if (refname.startsWith('refs/heads/')) {
+      results.push({ name: refname.slice('refs/heads/'.length), kind: 'branch' });
+    } else if (refname.startsWith('refs/remotes/')) {
+      const name = refname.slice('refs/remotes/'.length);
+      // 略過 origin/HEAD 這類符號參照
+      if (name.endsWith('/HEAD')) continue;
+      results.push({ name, kind: 'remote' });
+    } else if (refname.startsWith('refs/tags/')) {
+      results.push({ name: refname.slice('refs/tags/'.length), kind: 'tag' });
     }
   }
   return results;
 }
 
+// git log --format=%H%x1f%h%x1f%an%x1f%ad%x1f%s%x1e
+function parseLog(output: string): CommitItem[] {
+  if (!output) return [];
+  const results: CommitItem[] = [];
+
+  for (const record of output.split('\x1e')) {
+    const line = record.replace(/^\n+/, '');
+    if (!line) continue;
+
+    const [hash, shortHash, author, date, subject] = line.split('\x1f');
+    if (!hash || !shortHash) continue;
+
+    results.push({
+      hash,
+      shortHash,
+      author: author ?? '',
+      date: date ?? '',
+      subject: subject ?? '',
+    });
+  }
+  return results;
+}
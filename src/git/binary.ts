@@ -0,0 +1,60 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+// git 判斷 binary 的方式：前 8000 bytes 內出現 NUL 即視為 binary
+const SNIFF_BYTES = 8000;
+
+// 常見格式的 magic bytes
+const MAGIC_SIGNATURES: Array<{ bytes: number[]; type: string }> = [
+  { bytes: [0x89, 0x50, 0x4e, 0x47], type: 'PNG image' },
+  { bytes: [0xff, 0xd8, 0xff], type: 'JPEG image' },
+  { bytes: [0x47, 0x49, 0x46, 0x38], type: 'GIF image' },
+  { bytes: [0x42, 0x4d], type: 'BMP image' },
+  { bytes: [0x25, 0x50, 0x44, 0x46], type: 'PDF document' },
+  { bytes: [0x50, 0x4b, 0x03, 0x04], type: 'ZIP archive' },
+  { bytes: [0x1f, 0x8b], type: 'gzip archive' },
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], type: 'ELF executable' },
+  { bytes: [0x4d, 0x5a], type: 'Windows executable/DLL' },
+  { bytes: [0x77, 0x4f, 0x46, 0x46], type: 'WOFF font' },
+  { bytes: [0x77, 0x4f, 0x46, 0x32], type: 'WOFF2 font' },
+  { bytes: [0x00, 0x01, 0x00, 0x00], type: 'TrueType font' },
+  { bytes: [0x4f, 0x54, 0x54, 0x4f], type: 'OpenType font' },
+  { bytes: [0x44, 0x44, 0x53, 0x20], type: 'DDS texture' },
+];
+
+/**
+ * 讀取檔案開頭並判斷是否含有 NUL byte
+ */
+export async function sniffBinary(fullPath: string): Promise<{ binary: boolean; head: Buffer }> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(fullPath, 'r');
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    const head = buffer.subarray(0, bytesRead);
+    return { binary: head.includes(0), head };
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * 依 magic bytes 判斷檔案類型，無法辨識時使用副檔名
+ */
+export function detectFileType(head: Buffer, filePath: string): string {
+  for (const { bytes, type } of MAGIC_SIGNATURES) {
+    if (head.length >= bytes.length && bytes.every((b, i) => head[i] === b)) {
+      return type;
+    }
+  }
+
+  const ext = path.extname(filePath).slice(1).toLowerCase();
+  return ext ? `${ext.toUpperCase()} file` : 'unknown';
+}
+
+/**
+ * 匯出時取代 binary 內容的單行說明
+ */
+export function binaryPlaceholder(info: { path: string; size: number; type: string }): string {
+  return `[binary file skipped: ${info.path}, ${info.size} bytes, ${info.type}]`;
+}
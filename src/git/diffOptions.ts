@@ -0,0 +1,49 @@
+import type { DiffAlgorithm, DiffOptions } from './types.js';
+
+// 與 git diff 預設行為相同的選項
+export const DEFAULT_DIFF_OPTIONS: DiffOptions = {
+  contextLines: 3,
+  ignoreAllSpace: false,
+  ignoreBlankLines: false,
+  functionContext: false,
+  algorithm: 'myers',
+  renameThreshold: null,
+};
+
+export const DIFF_ALGORITHMS: DiffAlgorithm[] = ['myers', 'minimal', 'patience', 'histogram'];
+
+// 可選的 rename 相似度門檻（null: git 預設，0: 關閉）
+export const RENAME_THRESHOLDS: Array<number | null> = [null, 30, 50, 70, 90, 0];
+
+/**
+ * 將選項轉為 git diff 參數（與預設相同的選項不輸出，保留使用者 git config 的設定）
+ */
+export function diffOptionArgs(options: DiffOptions = DEFAULT_DIFF_OPTIONS): string[] {
+  const args: string[] = [];
+  if (options.contextLines !== DEFAULT_DIFF_OPTIONS.contextLines) args.push(`-U${options.contextLines}`);
+  if (options.ignoreAllSpace) args.push('--ignore-all-space');
+  if (options.ignoreBlankLines) args.push('--ignore-blank-lines');
+  if (options.functionContext) args.push('--function-context');
+  if (options.algorithm !== DEFAULT_DIFF_OPTIONS.algorithm) args.push(`--diff-algorithm=${options.algorithm}`);
+  if (options.renameThreshold === 0) {
+    args.push('--no-renames');
+  } else if (options.renameThreshold !== null) {
+    args.push(`--find-renames=${options.renameThreshold}%`);
+  }
+  return args;
+}
+
+/**
+ * 與預設不同的選項摘要（例如 "-U10 -w patience"），全部為預設時回傳空字串
+ */
+export function describeDiffOptions(options: DiffOptions): string {
+  const parts: string[] = [];
+  if (options.contextLines !== DEFAULT_DIFF_OPTIONS.contextLines) parts.push(`-U${options.contextLines}`);
+  if (options.ignoreAllSpace) parts.push('-w');
+  if (options.ignoreBlankLines) parts.push('no-blank');
+  if (options.functionContext) parts.push('func');
+  if (options.algorithm !== DEFAULT_DIFF_OPTIONS.algorithm) parts.push(options.algorithm);
+  if (options.renameThreshold === 0) parts.push('no-renames');
+  else if (options.renameThreshold !== null) parts.push(`M${options.renameThreshold}%`);
+  return parts.join(' ');
+}
@@ -0,0 +1,301 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatUnifiedDiff, parseUnifiedDiff, selectHunks } from './diffParser.js';
+
+const lines = (...text: string[]) => `${text.join('\n')}\n`;
+
+describe('parseUnifiedDiff', () => {
+  test('parses a modified file with line numbers', () => {
+    const [file, ...rest] = parseUnifiedDiff(lines(
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,3 +1,3 @@ function main() {',
+      ' one',
+      '-two',
+      '+TWO',
+      ' three',
+    ));
+    assert.equal(rest.length, 0);
+    assert.ok(file);
+    assert.equal(file.status, 'modified');
+    assert.equal(file.oldPath, 'src/a.ts');
+    assert.equal(file.newPath, 'src/a.ts');
+    assert.equal(file.additions, 1);
+    assert.equal(file.deletions, 1);
+
+    const [hunk] = file.hunks;
+    assert.ok(hunk);
+    assert.deepEqual(
+      [hunk.oldStart, hunk.oldLines, hunk.newStart, hunk.newLines, hunk.section],
+      [1, 3, 1, 3, 'function main() {']
+    );
+    assert.deepEqual(hunk.lines, [
+      { type: 'context', content: 'one', oldLine: 1, newLine: 1 },
+      { type: 'del', content: 'two', oldLine: 2, newLine: null },
+      { type: 'add', content: 'TWO', oldLine: null, newLine: 2 },
+      { type: 'context', content: 'three', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  test('reads omitted hunk counts as 1', () => {
+    const [file] = parseUnifiedDiff(lines(
+      'diff --git a/x b/x',
+      '--- a/x',
+      '+++ b/x',
+      '@@ -5 +5 @@',
+      '-old',
+      '+new',
+    ));
+    const hunk = file?.hunks[0];
+    assert.deepEqual([hunk?.oldStart, hunk?.oldLines, hunk?.newStart, hunk?.newLines], [5, 1, 5, 1]);
+  });
+
+  test('parses added and deleted files', () => {
+    const files = parseUnifiedDiff(lines(
+      'diff --git a/new.txt b/new.txt',
+      'new file mode 100644',
+      'index 0000000..1111111',
+      '--- /dev/null',
+      '+++ b/new.txt',
+      '@@ -0,0 +1 @@',
+      '+hello',
+      'diff --git a/old.txt b/old.txt',
+      'deleted file mode 100755',
+      'index 1111111..0000000',
+      '--- a/old.txt',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-bye',
+    ));
+    assert.deepEqual(files.map(f => [f.status, f.oldPath, f.newPath]), [
+      ['added', null, 'new.txt'],
+      ['deleted', 'old.txt', null],
+    ]);
+    assert.equal(files[0]?.newMode, '100644');
+    assert.equal(files[1]?.oldMode, '100755');
+  });
+
+  test('takes rename paths from the rename headers', () => {
+    const [file] = parseUnifiedDiff(lines(
+      'diff --git a/old dir/a.ts b/new dir/a.ts',
+      'similarity index 90%',
+      'rename from old dir/a.ts',
+      'rename to new dir/a.ts',
+    ));
+    assert.equal(file?.status, 'renamed');
+    assert.equal(file?.similarity, 90);
+    assert.equal(file?.oldPath, 'old dir/a.ts');
+    assert.equal(file?.newPath, 'new dir/a.ts');
+    assert.deepEqual(file?.hunks, []);
+  });
+
+  test('unquotes paths with special characters', () => {
+    const [file] = parseUnifiedDiff(lines(
+      'diff --git "a/\\346\\226\\207.txt" "b/\\346\\226\\207.txt"',
+      '--- "a/\\346\\226\\207.txt"',
+      '+++ "b/\\346\\226\\207.txt"',
+    ));
+    assert.equal(file?.oldPath, '文.txt');
+    assert.equal(file?.newPath, '文.txt');
+  });
+
+  test('marks binary files', () => {
+    const [file] = parseUnifiedDiff(lines(
+      'diff --git a/logo.png b/logo.png',
+      'index 1111111..2222222 100644',
+      'Binary files a/logo.png and b/logo.png differ',
+    ));
+    assert.equal(file?.isBinary, true);
+  });
+
+  test('attaches the no-newline marker to the previous line', () => {
+    const [file] = parseUnifiedDiff(lines(
+      'diff --git a/x b/x',
+      '--- a/x',
+      '+++ b/x',
+      '@@ -1 +1 @@',
+      '-a',
+      '\\ No newline at end of file',
+      '+b',
+    ));
+    const [del, add] = file?.hunks[0]?.lines ?? [];
+    assert.equal(del?.noNewlineAtEof, true);
+    assert.equal(add?.noNewlineAtEof, undefined);
+  });
+
+  test('ignores commit headers before and between files', () => {
+    const files = parseUnifiedDiff(lines(
+      'commit 1234',
+      'Author: someone',
+      '',
+      '    message',
+      '',
+      'diff --git a/x b/x',
+      '--- a/x',
+      '+++ b/x',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+      'commit 5678',
+      'diff --git a/y b/y',
+      '--- a/y',
+      '+++ b/y',
+      '@@ -1 +1 @@',
+      '-c',
+      '+d',
+    ));
+    assert.deepEqual(files.map(f => [f.newPath, f.hunks[0]?.lines.length]), [['x', 2], ['y', 2]]);
+  });
+
+  test('parses combined diffs of conflicted files', () => {
+    const [file] = parseUnifiedDiff(lines(
+      'diff --cc conflict.ts',
+      'index 1111111,2222222..0000000',
+      '--- a/conflict.ts',
+      '+++ b/conflict.ts',
+      '@@@ -1,1 -1,1 +1,5 @@@',
+      '++<<<<<<< ours',
+      ' +mine',
+      '++=======',
+      '+ theirs',
+      '++>>>>>>> theirs',
+    ));
+    assert.equal(file?.isCombined, true);
+    assert.equal(file?.newPath, 'conflict.ts');
+    const hunk = file?.hunks[0];
+    assert.deepEqual([hunk?.newStart, hunk?.newLines], [1, 5]);
+    assert.deepEqual(hunk?.lines.map(l => [l.type, l.content, l.newLine]), [
+      ['add', '<<<<<<< ours', 1],
+      ['add', 'mine', 2],
+      ['add', '=======', 3],
+      ['add', 'theirs', 4],
+      ['add', '>>>>>>> theirs', 5],
+    ]);
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  test('round-trips git output', () => {
+    const text = lines(
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,3 +1,3 @@ section',
+      ' one',
+      '-two',
+      '+TWO',
+      ' three',
+      '@@ -10 +10 @@',
+      '-x',
+      '\\ No newline at end of file',
+      '+y',
+      '\\ No newline at end of file',
+    );
+    assert.equal(formatUnifiedDiff(parseUnifiedDiff(text)), text);
+  });
+
+  test('returns an empty string without files', () => {
+    assert.equal(formatUnifiedDiff([]), '');
+  });
+
+  test('pairs deleted and added lines in word-diff output', () => {
+    const files = parseUnifiedDiff(lines(
+      'diff --git a/x b/x',
+      '--- a/x',
+      '+++ b/x',
+      '@@ -1,4 +1,3 @@',
+      ' keep',
+      '-let a = 1;',
+      '-gone',
+      '+let a = 2;',
+      ' end',
+    ));
+    assert.equal(formatUnifiedDiff(files, { wordDiff: true }), lines(
+      'diff --git a/x b/x',
+      '--- a/x',
+      '+++ b/x',
+      '@@ -1,4 +1,3 @@',
+      'keep',
+      'let a = [-1-]{+2+};',
+      '[-gone-]',
+      'end',
+    ));
+  });
+});
+
+describe('selectHunks', () => {
+  // 三個 hunk：+1 行、+1 行、-1 行
+  const [file] = parseUnifiedDiff(lines(
+    'diff --git a/x b/x',
+    '--- a/x',
+    '+++ b/x',
+    '@@ -1,3 +1,4 @@ first',
+    ' a',
+    '+b',
+    ' c',
+    ' d',
+    '@@ -10,2 +11,3 @@ second',
+    ' j',
+    '+k',
+    ' l',
+    '@@ -20,3 +22,2 @@ third',
+    ' t',
+    '-u',
+    ' v',
+  ));
+  assert.ok(file);
+  const headers = (indices: number[]) => selectHunks(file, indices).hunks.map(h => h.header);
+
+  test('keeps every hunk unchanged when all are selected', () => {
+    assert.deepEqual(headers([0, 1, 2]), file.hunks.map(h => h.header));
+  });
+
+  test('shifts later hunks by the skipped line counts', () => {
+    assert.deepEqual(headers([0, 2]), ['@@ -1,3 +1,4 @@ first', '@@ -20,3 +21,2 @@ third']);
+    assert.deepEqual(headers([2]), ['@@ -20,3 +20,2 @@ third']);
+    assert.deepEqual(headers([1, 2]), ['@@ -10,2 +10,3 @@ second', '@@ -20,3 +21,2 @@ third']);
+  });
+
+  test('recounts additions and deletions', () => {
+    const selected = selectHunks(file, [2]);
+    assert.equal(selected.additions, 0);
+    assert.equal(selected.deletions, 1);
+    assert.equal(selectHunks(file, []).hunks.length, 0);
+  });
+
+  test('handles hunks that only add or only delete lines', () => {
+    const [pure] = parseUnifiedDiff(lines(
+      'diff --git a/y b/y',
+      '--- a/y',
+      '+++ b/y',
+      '@@ -1,0 +2 @@',
+      '+added',
+      '@@ -5,0 +7,2 @@',
+      '+x',
+      '+y',
+      '@@ -8,2 +9,0 @@',
+      '-p',
+      '-q',
+    ));
+    assert.ok(pure);
+    const pureHeaders = (indices: number[]) => selectHunks(pure, indices).hunks.map(h => h.header);
+    assert.deepEqual(pureHeaders([1]), ['@@ -5,0 +6,2 @@']);
+    assert.deepEqual(pureHeaders([2]), ['@@ -8,2 +7,0 @@']);
+    assert.deepEqual(pureHeaders([0, 2]), ['@@ -1,0 +2 @@', '@@ -8,2 +8,0 @@']);
+  });
+
+  test('produces a patch that formats back to a valid diff', () => {
+    assert.equal(formatUnifiedDiff([selectHunks(file, [2])]), lines(
+      'diff --git a/x b/x',
+      '--- a/x',
+      '+++ b/x',
+      '@@ -20,3 +20,2 @@ third',
+      ' t',
+      '-u',
+      ' v',
+    ));
+  });
+});
@@ -0,0 +1,384 @@
+import type { DiffFile, DiffHunk, DiffLine } from './types.js';
+import { formatWordDiff } from './wordDiff.js';
+
+// "@@ -a,b +c,d @@ section"（,b 與 ,d 可省略，代表 1）
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+// 合併 diff："@@@ -a,b -c,d +e,f @@@ section"
+const COMBINED_HUNK_HEADER = /^(@{3,}) (.*?) \1 ?(.*)$/;
+
+/**
+ * 將 git diff 的輸出解析為 DiffFile[]
+ * 第一個 "diff " 之前的內容（例如 git show 的 commit 標頭）會被忽略
+ */
+export function parseUnifiedDiff(text: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const lines = text.split('\n');
+
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let combinedParents = 0;
+
+  for (const line of lines) {
+    // ---- 新檔案開始 ----
+    if (line.startsWith('diff --git ') || line.startsWith('diff --cc ') || line.startsWith('diff --combined ')) {
+      file = createFile(line);
+      files.push(file);
+      hunk = null;
+      continue;
+    }
+
+    if (!file) continue;
+
+    // ---- Hunk 標頭 ----
+    if (line.startsWith('@@')) {
+      const parsed = file.isCombined ? parseCombinedHunkHeader(line) : parseHunkHeader(line);
+      if (parsed) {
+        hunk = parsed.hunk;
+        combinedParents = parsed.parents;
+        oldLine = hunk.oldStart;
+        newLine = hunk.newStart;
+        file.hunks.push(hunk);
+        continue;
+      }
+    }
+
+    // ---- 標頭區（第一個 hunk 之前） ----
+    if (!hunk) {
+      parseHeaderLine(file, line);
+      continue;
+    }
+
+    // ---- Hunk 內容 ----
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file" 標記在前一行
+      const last = hunk.lines[hunk.lines.length - 1];
+      if (last) last.noNewlineAtEof = true;
+      continue;
+    }
+
+    if (file.isCombined) {
+      // 合併 diff：每個 parent 佔一欄
+      const markers = line.slice(0, combinedParents);
+      const content = line.slice(combinedParents);
+      if (markers.includes('+')) {
+        hunk.lines.push({ type: 'add', content, oldLine: null, newLine: newLine++ });
+        file.additions++;
+      } else if (markers.includes('-')) {
+        hunk.lines.push({ type: 'del', content, oldLine: null, newLine: null });
+        file.deletions++;
+      } else if (line.length > 0) {
+        hunk.lines.push({ type: 'context', content, oldLine: null, newLine: newLine++ });
+      }
+      continue;
+    }
+
+    const marker = line[0];
+    const content = line.slice(1);
+    let diffLine: DiffLine | null = null;
+
+    if (marker === '+') {
+      diffLine = { type: 'add', content, oldLine: null, newLine: newLine++ };
+      file.additions++;
+    } else if (marker === '-') {
+      diffLine = { type: 'del', content, oldLine: oldLine++, newLine: null };
+      file.deletions++;
+    } else if (marker === ' ') {
+      diffLine = { type: 'context', content, oldLine: oldLine++, newLine: newLine++ };
+    }
+
+    if (diffLine) {
+      hunk.lines.push(diffLine);
+    } else if (line.length > 0) {
+      // 不屬於 hunk 的內容（例如 git show 多個 commit 之間的標頭），結束目前的檔案
+      file = null;
+      hunk = null;
+    }
+  }
+
+  return files;
+}
+
+function createFile(line: string): DiffFile {
+  const isCombined = !line.startsWith('diff --git ');
+  const file: DiffFile = {
+    oldPath: null,
+    newPath: null,
+    status: 'modified',
+    headers: [line],
+    isBinary: false,
+    isCombined,
+    hunks: [],
+    additions: 0,
+    deletions: 0,
+  };
+
+  if (isCombined) {
+    const filePath = unquotePath(line.replace(/^diff --(cc|combined) /, ''));
+    file.oldPath = filePath;
+    file.newPath = filePath;
+    return file;
+  }
+
+  // "diff --git a/x b/x"：路徑相同時可直接從中間切開；
+  // 不同時（rename）之後會由 rename from/to 或 ---/+++ 覆寫
+  const paths = splitGitPaths(line.slice('diff --git '.length));
+  if (paths) {
+    file.oldPath = paths[0];
+    file.newPath = paths[1];
+  }
+  return file;
+}
+
+function parseHeaderLine(file: DiffFile, line: string): void {
+  if (line.length === 0) return;
+  file.headers.push(line);
+
+  if (line.startsWith('new file mode ')) {
+    file.status = 'added';
+    file.newMode = line.slice('new file mode '.length);
+    file.oldPath = null;
+  } else if (line.startsWith('deleted file mode ')) {
+    file.status = 'deleted';
+    file.oldMode = line.slice('deleted file mode '.length);
+    file.newPath = null;
+  } else if (line.startsWith('old mode ')) {
+    file.oldMode = line.slice('old mode '.length);
+  } else if (line.startsWith('new mode ')) {
+    file.newMode = line.slice('new mode '.length);
+  } else if (line.startsWith('similarity index ')) {
+    file.similarity = parseInt(line.slice('similarity index '.length), 10);
+  } else if (line.startsWith('rename from ')) {
+    file.status = 'renamed';
+    file.oldPath = unquotePath(line.slice('rename from '.length));
+  } else if (line.startsWith('rename to ')) {
+    file.status = 'renamed';
+    file.newPath = unquotePath(line.slice('rename to '.length));
+  } else if (line.startsWith('copy from ')) {
+    file.status = 'copied';
+    file.oldPath = unquotePath(line.slice('copy from '.length));
+  } else if (line.startsWith('copy to ')) {
+    file.status = 'copied';
+    file.newPath = unquotePath(line.slice('copy to '.length));
+  } else if (line.startsWith('Binary files ') || line === 'GIT binary patch') {
+    file.isBinary = true;
+  } else if (line.startsWith('--- ')) {
+    file.oldPath = stripPrefix(unquotePath(line.slice(4)));
+  } else if (line.startsWith('+++ ')) {
+    file.newPath = stripPrefix(unquotePath(line.slice(4)));
+  }
+}
+
+function parseHunkHeader(line: string): { hunk: DiffHunk; parents: number } | null {
+  const match = HUNK_HEADER.exec(line);
+  if (!match) return null;
+
+  return {
+    parents: 1,
+    hunk: {
+      header: line,
+      oldStart: Number(match[1]),
+      oldLines: match[2] === undefined ? 1 : Number(match[2]),
+      newStart: Number(match[3]),
+      newLines: match[4] === undefined ? 1 : Number(match[4]),
+      section: match[5] ?? '',
+      lines: [],
+    },
+  };
+}
+
+function parseCombinedHunkHeader(line: string): { hunk: DiffHunk; parents: number } | null {
+  const match = COMBINED_HUNK_HEADER.exec(line);
+  if (!match) return null;
+
+  // 範圍依序為各 parent 的 "-a,b"，最後一個是結果的 "+c,d"
+  const ranges = (match[2] ?? '').split(' ');
+  const parse = (range: string | undefined) => {
+    const [start, count] = (range ?? '').slice(1).split(',');
+    return { start: Number(start) || 0, count: count === undefined ? 1 : Number(count) };
+  };
+  const oldRange = parse(ranges[0]);
+  const newRange = parse(ranges[ranges.length - 1]);
+
+  return {
+    parents: (match[1] ?? '@@@').length - 1,
+    hunk: {
+      header: line,
+      oldStart: oldRange.start,
+      oldLines: oldRange.count,
+      newStart: newRange.start,
+      newLines: newRange.count,
+      section: match[3] ?? '',
+      lines: [],
+    },
+  };
+}
+
+// "a/path" → "path"；/dev/null → null 以外的情況保留原樣
+function stripPrefix(p: string): string | null {
+  if (p === '/dev/null') return null;
+  // --no-index 產生的 "b//abs/path" 或一般的 "a/x"、"b/x"
+  return p.replace(/^[ab]\//, '').replace(/\t.*$/, '');
+}
+
+// "a/x b/x" → ["x", "x"]（只在兩邊路徑相同時可靠）
+function splitGitPaths(rest: string): [string, string] | null {
+  if (rest.startsWith('"')) {
+    const match = /^("(?:[^"\\]|\\.)*") ("(?:[^"\\]|\\.)*"|\S.*)$/.exec(rest);
+    if (!match) return null;
+    return [
+      stripPrefix(unquotePath(match[1]!)) ?? '',
+      stripPrefix(unquotePath(match[2]!)) ?? '',
+    ];
+  }
+
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest[half] === ' ') {
+    const left = rest.slice(0, half);
+    const right = rest.slice(half + 1);
+    if (left.slice(2) === right.slice(2)) {
+      return [stripPrefix(left) ?? '', stripPrefix(right) ?? ''];
+    }
+  }
+
+  // 路徑不同時嘗試以 " b/" 切開
+  const index = rest.indexOf(' b/');
+  if (index > 0) {
+    return [stripPrefix(rest.slice(0, index)) ?? '', stripPrefix(rest.slice(index + 1)) ?? ''];
+  }
+  return null;
+}
+
+// git 會把含特殊字元的路徑以 C 字串格式加上引號（core.quotePath）
+function unquotePath(p: string): string {
+  if (!p.startsWith('"') || !p.endsWith('"')) return p;
+
+  const body = p.slice(1, -1);
+  const bytes: number[] = [];
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i]!;
+    if (ch !== '\\') {
+      bytes.push(...Buffer.from(ch, 'utf8'));
+      continue;
+    }
+
+    const next = body[++i];
+    if (next !== undefined && /[0-7]/.test(next)) {
+      // 八進位跳脫（UTF-8 bytes）
+      const octal = body.slice(i, i + 3);
+      bytes.push(parseInt(octal, 8));
+      i += 2;
+    } else {
+      const escapes: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\', a: '\x07', b: '\b', f: '\f', r: '\r', v: '\v' };
+      bytes.push(...Buffer.from(escapes[next ?? ''] ?? next ?? '', 'utf8'));
+    }
+  }
+  return Buffer.from(bytes).toString('utf8');
+}
+
+/**
+ * 只保留指定的 hunk，並重新計算 hunk 標頭
+ * 被略過的 hunk 不會套用，之後 hunk 的新檔行號要扣掉它們造成的位移
+ */
+export function selectHunks(file: DiffFile, hunkIndices: Iterable<number>): DiffFile {
+  const keep = new Set(hunkIndices);
+  const hunks: DiffHunk[] = [];
+  let offset = 0; // 已保留的 hunk 累計的行數差（新 - 舊）
+
+  file.hunks.forEach((hunk, index) => {
+    if (!keep.has(index)) return;
+
+    // 行數為 0 時，git 的 start 指向「前一行」，先換算成實際位置再加上位移
+    const oldPosition = hunk.oldLines === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+    const newPosition = oldPosition + offset;
+    const newStart = hunk.newLines === 0 ? newPosition - 1 : newPosition;
+    const recomputed: DiffHunk = { ...hunk, newStart };
+    recomputed.header = formatHunkHeader(recomputed);
+    hunks.push(recomputed);
+    offset += hunk.newLines - hunk.oldLines;
+  });
+
+  let additions = 0;
+  let deletions = 0;
+  for (const hunk of hunks) {
+    for (const line of hunk.lines) {
+      if (line.type === 'add') additions++;
+      if (line.type === 'del') deletions++;
+    }
+  }
+
+  return { ...file, hunks, additions, deletions };
+}
+
+/**
+ * 將 DiffFile[] 轉回 unified diff 文字
+ * wordDiff: 以 git --word-diff=plain 的格式輸出，成對的刪除/新增行合併為一行 [-舊-]{+新+}
+ */
+export function formatUnifiedDiff(files: DiffFile[], options: { wordDiff?: boolean } = {}): string {
+  const out: string[] = [];
+
+  for (const file of files) {
+    out.push(...file.headers);
+    for (const hunk of file.hunks) {
+      out.push(hunk.header);
+      if (options.wordDiff) {
+        out.push(...formatWordDiffHunk(hunk));
+        continue;
+      }
+      for (const line of hunk.lines) {
+        const marker = line.type === 'add' ? '+' : line.type === 'del' ? '-' : ' ';
+        out.push(`${marker}${line.content}`);
+        if (line.noNewlineAtEof) out.push('\\ No newline at end of file');
+      }
+    }
+  }
+
+  return out.length > 0 ? `${out.join('\n')}\n` : '';
+}
+
+// 連續的刪除行與緊接的新增行依序配對，多出來的行整行標示
+function formatWordDiffHunk(hunk: DiffHunk): string[] {
+  const out: string[] = [];
+  let dels: string[] = [];
+  let adds: string[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(dels.length, adds.length); i++) {
+      const del = dels[i];
+      const add = adds[i];
+      if (del !== undefined && add !== undefined) {
+        out.push(formatWordDiff(del, add));
+      } else if (del !== undefined) {
+        out.push(`[-${del}-]`);
+      } else {
+        out.push(`{+${add}+}`);
+      }
+    }
+    dels = [];
+    adds = [];
+  };
+
+  for (const line of hunk.lines) {
+    if (line.type === 'del') {
+      if (adds.length > 0) flush();
+      dels.push(line.content);
+    } else if (line.type === 'add') {
+      adds.push(line.content);
+    } else {
+      flush();
+      out.push(line.content);
+    }
+  }
+  flush();
+
+  return out;
+}
+
+// "@@ -a,b +c,d @@ section"（數量為 1 時省略）
+function formatHunkHeader(hunk: DiffHunk): string {
+  const range = (start: number, count: number) => count === 1 ? `${start}` : `${start},${count}`;
+  const section = hunk.section ? ` ${hunk.section}` : '';
+  return `@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@${section}`;
+}
@@ -1,10 +1,160 @@
 export type GitChangeStatus =
   | 'A' | 'M' | 'D' | 'R' | 'C' | 'T' | 'U' | 'X' | 'B' | '?';
 
+// porcelain v2 的 X / Y 欄位，'.' 代表該側沒有變更
+export type GitStatusCode = GitChangeStatus | '.';
+
+// porcelain v2 的記錄種類
+// 1: 一般變更, 2: rename/copy, u: unmerged, ?: untracked
+export type GitEntryKind = 'changed' | 'renamed' | 'unmerged' | 'untracked';
+
+// submodule 狀態（porcelain v2 的 <sub> 欄位 "S<c><m><u>"）
+export type SubmoduleState = {
+  commitChanged: boolean;     // C: 指向的 commit 改變
+  trackedChanges: boolean;    // M: 有 tracked 檔案變更
+  untrackedChanges: boolean;  // U: 有 untracked 檔案
+};
+
+// 檔案模式（八進位字串，例如 "100644"）
+export type FileModes = {
+  head: string;
+  index: string;
+  worktree: string;
+};
+
 export type GitChange = {
   path: string;
-  statusCode: string; // "MM", " M", "??", etc.
-  status: string;     // 為了 UI 顯示方便，你可以轉換成單一字母
-  oldPath?: string;
+  oldPath?: string;           // rename/copy 的原路徑
+  kind: GitEntryKind;
+  index: GitStatusCode;       // X：index 相對於 HEAD
+  worktree: GitStatusCode;    // Y：工作區相對於 index
+  status: GitChangeStatus;    // 代表性狀態（UI 顯示用）
+  score?: number;             // rename/copy 相似度（0-100）
+  submodule?: SubmoduleState; // 只有 submodule 才有
+  modes?: FileModes;
+};
+
+// git status --branch 的分支資訊
+export type BranchInfo = {
+  oid: string | null;   // null: 尚未有任何 commit
+  head: string | null;  // null: detached HEAD
+  upstream?: string;
+  ahead?: number;
+  behind?: number;
+};
+
+// git status 的完整結果
+export type GitStatus = {
+  branch: BranchInfo;
+  changes: GitChange[];
 };
 
+// 依檔案列表的分組切開的變更（同一個檔案可能同時在 staged 與 unstaged）
+export type ChangeGroups = {
+  conflicted: GitChange[];
+  unstaged: GitChange[];
+  staged: GitChange[];
+};
+
+// repo 的基本資訊（匯出的中繼資料）
+export type RepoInfo = {
+  root: string;           // repo 根目錄的絕對路徑
+  branch: string | null;  // null: detached HEAD
+  head: string | null;    // HEAD 的 commit hash；null: 尚未有任何 commit
+};
+
+
+// git log 的單筆 commit
+export type CommitItem = {
+  hash: string;       // 完整 hash
+  shortHash: string;  // 縮寫 hash（%h）
+  author: string;
+  date: string;       // YYYY-MM-DD
+  subject: string;
+};
+
+// 可作為比較基準的 ref
+export type GitRef = {
+  name: string;  // 短名稱，例如 "main", "origin/main", "v1.0.0"
+  kind: 'branch' | 'remote' | 'tag';
+};
+
+// 與任意 ref 比較的範圍（PR diff 模式）
+export type CompareRange = {
+  base: string;                 // 使用者選擇的 ref
+  mergeBase: string;            // git merge-base <base> HEAD
+  target: 'HEAD' | 'worktree';  // 比較到 HEAD，或包含未 commit 的工作區變更
+};
+
+// git stash 的單筆紀錄
+export type StashItem = {
+  index: number;       // stash@{index}
+  hash: string;
+  message: string;     // 例如 "WIP on main: abc1234 subject"
+  date: string;        // YYYY-MM-DD
+  files: GitChange[];  // 包含以 -u 儲存的 untracked 檔案
+};
+
+// 衝突檔案在 index 中的 stage
+// 1: base（共同祖先）, 2: ours, 3: theirs
+export type ConflictStage = 1 | 2 | 3;
+
+// 檔案的 binary/text 分類結果
+export type FileClassification = {
+  path: string;
+  binary: boolean;
+  size: number;  // bytes
+  type: string;  // 例如 "PNG image", "TS file"
+};
+
+// ---- 結構化的 unified diff ----
+
+export type DiffLineType = 'context' | 'add' | 'del';
+
+export type DiffLine = {
+  type: DiffLineType;
+  content: string;          // 不含開頭的 ' ' / '+' / '-'
+  oldLine: number | null;   // 新增的行為 null
+  newLine: number | null;   // 刪除的行為 null
+  noNewlineAtEof?: boolean; // 後面接著 "\ No newline at end of file"
+};
+
+export type DiffHunk = {
+  header: string;           // 完整的 "@@ -a,b +c,d @@ section" 行
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  section: string;          // @@ 之後的函式/區段名稱
+  lines: DiffLine[];
+};
+
+export type DiffFileStatus = 'added' | 'deleted' | 'modified' | 'renamed' | 'copied';
+
+export type DiffFile = {
+  oldPath: string | null;   // 新增的檔案為 null
+  newPath: string | null;   // 刪除的檔案為 null
+  status: DiffFileStatus;
+  headers: string[];        // "diff --git" 到第一個 hunk 之間的原始標頭行
+  oldMode?: string;
+  newMode?: string;
+  similarity?: number;      // rename/copy 相似度（0-100）
+  isBinary: boolean;
+  isCombined: boolean;      // diff --cc（合併衝突）
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+};
+
+// ---- diff 選項 ----
+
+export type DiffAlgorithm = 'myers' | 'minimal' | 'patience' | 'histogram';
+
+export type DiffOptions = {
+  contextLines: number;            // -U<n>
+  ignoreAllSpace: boolean;         // --ignore-all-space
+  ignoreBlankLines: boolean;       // --ignore-blank-lines
+  functionContext: boolean;        // --function-context
+  algorithm: DiffAlgorithm;        // --diff-algorithm=<algorithm>
+  renameThreshold: number | null;  // --find-renames=<n>%；0 為 --no-renames；null 使用 git 預設
+};
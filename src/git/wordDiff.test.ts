@@ -0,0 +1,37 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffWords, formatWordDiff } from './wordDiff.js';
+
+describe('diffWords', () => {
+  test('marks only the changed word', () => {
+    assert.deepEqual(diffWords('const value = 1;', 'const value = 2;'), { old: [[14, 15]], new: [[14, 15]] });
+  });
+
+  test('marks inserted and removed words on one side only', () => {
+    assert.deepEqual(diffWords('foo(a, b)', 'foo(a, b, c)'), { old: [], new: [[8, 11]] });
+    assert.deepEqual(diffWords('foo(a, b, c)', 'foo(a, b)'), { old: [[8, 11]], new: [] });
+  });
+
+  test('merges adjacent changed tokens into one range', () => {
+    assert.deepEqual(diffWords('return a + b;', 'return a * c;'), { old: [[9, 10], [11, 12]], new: [[9, 10], [11, 12]] });
+    assert.deepEqual(diffWords('let x = oldName;', 'let x = newName;'), { old: [[8, 15]], new: [[8, 15]] });
+  });
+
+  test('returns null for rewritten or empty lines', () => {
+    assert.equal(diffWords('completely different', 'nothing alike here'), null);
+    assert.equal(diffWords('', 'added'), null);
+  });
+});
+
+describe('formatWordDiff', () => {
+  const cases: Array<[string, string, string]> = [
+    ['const value = 1;', 'const value = 2;', 'const value = [-1-]{+2+};'],
+    ['foo(a, b)', 'foo(a, b, c)', 'foo(a, b{+, c+})'],
+    ['foo(a, b, c)', 'foo(a, b)', 'foo(a, b[-, c-])'],
+    ['same', 'same', 'same'],
+    ['old', 'new', '[-old-]{+new+}'],
+  ];
+  for (const [oldText, newText, expected] of cases) {
+    test(`${oldText} → ${newText}`, () => assert.equal(formatWordDiff(oldText, newText), expected));
+  }
+});
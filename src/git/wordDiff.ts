@@ -0,0 +1,112 @@
+// 行內（word 層級）差異：找出一對刪除/新增行中實際變更的字元範圍
+
+// 變更範圍 [start, end)，以字元位置表示
+export type ChangeRange = [number, number];
+
+// 超過這個大小（token 數相乘）就不計算，避免超長行拖慢預覽
+const MAX_CELLS = 250_000;
+
+// 共同部分少於較長一行的這個比例時，視為整行改寫，不標示行內差異
+const MIN_COMMON_RATIO = 0.3;
+
+// 單字、連續空白、單一符號各為一個 token
+const WORD_TOKEN = /\w+|\s+|[^\w\s]/g;
+
+/**
+ * 比較兩行，回傳各自變更的範圍
+ * 兩行幾乎完全不同時回傳 null（整行都是變更，不需要行內標示）
+ */
+export function diffWords(oldText: string, newText: string): { old: ChangeRange[]; new: ChangeRange[] } | null {
+  const a = oldText.match(WORD_TOKEN) ?? [];
+  const b = newText.match(WORD_TOKEN) ?? [];
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_CELLS) return null;
+
+  const [keepA, keepB] = lcs(a, b);
+
+  const common = a.reduce((sum, token, i) => keepA[i] ? sum + token.length : sum, 0);
+  if (common < Math.max(oldText.length, newText.length) * MIN_COMMON_RATIO) return null;
+
+  return { old: toRanges(a, keepA), new: toRanges(b, keepB) };
+}
+
+/**
+ * 以 git --word-diff=plain 的格式合併一對刪除/新增行：[-舊-]{+新+}
+ */
+export function formatWordDiff(oldText: string, newText: string): string {
+  const a = oldText.match(WORD_TOKEN) ?? [];
+  const b = newText.match(WORD_TOKEN) ?? [];
+  if (a.length * b.length > MAX_CELLS) {
+    return `[-${oldText}-]{+${newText}+}`;
+  }
+
+  const [keepA, keepB] = lcs(a, b);
+  let out = '';
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    let removed = '';
+    let added = '';
+    while (i < a.length && !keepA[i]) removed += a[i++];
+    while (j < b.length && !keepB[j]) added += b[j++];
+    if (removed) out += `[-${removed}-]`;
+    if (added) out += `{+${added}+}`;
+    // 共同的 token 兩邊同時前進
+    if (i < a.length && j < b.length) {
+      out += a[i];
+      i++;
+      j++;
+    }
+  }
+  return out;
+}
+
+// 最長共同子序列：回傳兩邊各 token 是否屬於共同部分
+function lcs(a: string[], b: string[]): [boolean[], boolean[]] {
+  const n = a.length;
+  const m = b.length;
+  const table = new Uint32Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => table[i * (m + 1) + j]!;
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] = a[i] === b[j]
+        ? at(i + 1, j + 1) + 1
+        : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+
+  const keepA: boolean[] = new Array(n).fill(false);
+  const keepB: boolean[] = new Array(m).fill(false);
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      keepA[i++] = true;
+      keepB[j++] = true;
+    } else if (at(i + 1, j) >= at(i, j + 1)) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return [keepA, keepB];
+}
+
+// 將不屬於共同部分的 token 合併成連續的字元範圍
+function toRanges(tokens: string[], keep: boolean[]): ChangeRange[] {
+  const ranges: ChangeRange[] = [];
+  let pos = 0;
+  tokens.forEach((token, i) => {
+    const end = pos + token.length;
+    if (!keep[i]) {
+      const last = ranges[ranges.length - 1];
+      if (last && last[1] === pos) {
+        last[1] = end;
+      } else {
+        ranges.push([pos, end]);
+      }
+    }
+    pos = end;
+  });
+  return ranges;
+}
@@ -0,0 +1,70 @@
+import type { Tokenizer } from './tokenizer.js';
+
+// 超過預算時：只提示，或自動縮減內容
+export type BudgetPolicy = 'warn' | 'trim';
+
+// 匯出對話框中可切換的預算（null 表示不限制）
+export const TOKEN_BUDGETS: Array<number | null> = [null, 8_000, 32_000, 64_000, 128_000, 200_000, 1_000_000];
+
+export type FitResult<T> = {
+  content: string;
+  tokens: number;
+  contextLines: number;
+  dropped: T[];
+};
+
+/**
+ * 將匯出內容縮減到預算內
+ * 1. 逐步減少 context 行數（最少到 0）
+ * 2. 仍超過時，從最大的項目開始捨棄
+ * render 需以指定的 context 行數產生內容
+ */
+export async function fitToBudget<T>(options: {
+  items: T[];
+  budget: number;
+  tokenizer: Tokenizer;
+  contextLines: number;
+  render: (items: T[], contextLines: number) => Promise<string>;
+}): Promise<FitResult<T>> {
+  const { items, budget, tokenizer, render } = options;
+
+  // 1. 減少 context 行數
+  const levels = [options.contextLines, ...[1, 0].filter(n => n < options.contextLines)];
+  let contextLines = options.contextLines;
+  for (const level of levels) {
+    contextLines = level;
+    const content = await render(items, level);
+    const tokens = tokenizer.count(content);
+    if (tokens <= budget) {
+      return { content, tokens, contextLines, dropped: [] };
+    }
+  }
+
+  // 2. 逐一量測每個項目，從最大的開始捨棄
+  const sizes = new Map<T, number>();
+  for (const item of items) {
+    sizes.set(item, tokenizer.count(await render([item], contextLines)));
+  }
+  const bySize = [...items].sort((a, b) => sizes.get(b)! - sizes.get(a)!);
+
+  const dropped: T[] = [];
+  let estimate = bySize.reduce((sum, item) => sum + sizes.get(item)!, 0);
+  while (bySize.length > 0) {
+    // 先用量測值估算，接近預算時才實際產生一次確認
+    while (bySize.length > 0 && estimate > budget) {
+      const item = bySize.shift()!;
+      dropped.push(item);
+      estimate -= sizes.get(item)!;
+    }
+    const kept = items.filter(item => !dropped.includes(item));
+    const content = kept.length > 0 ? await render(kept, contextLines) : '';
+    const tokens = tokenizer.count(content);
+    if (tokens <= budget) {
+      return { content, tokens, contextLines, dropped };
+    }
+    // 合併後的標頭等額外內容仍使總數超過：再多捨棄一個
+    estimate = Math.max(estimate, budget + 1);
+  }
+
+  return { content: '', tokens: 0, contextLines, dropped };
+}
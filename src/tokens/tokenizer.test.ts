@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { charsTokenizer, createTokenizer, formatTokenCount } from './tokenizer.js';
+
+describe('createTokenizer', () => {
+  test('chars uses the chars/4 heuristic', async () => {
+    const { tokenizer, warning } = await createTokenizer('chars');
+    assert.equal(tokenizer, charsTokenizer);
+    assert.equal(warning, undefined);
+    assert.equal(tokenizer.count('abcdefghi'), 3);
+  });
+
+  test('bpe without a vocabulary path uses the bundled cl100k_base', async () => {
+    const { tokenizer, warning } = await createTokenizer('bpe');
+    assert.equal(warning, undefined);
+    assert.equal(tokenizer.name, 'cl100k_base');
+    assert.equal(tokenizer.count('hello world'), 2);
+    assert.equal(tokenizer.count('tiktoken is great!'), 6);
+  });
+
+  test('falls back to chars/4 with a warning when the vocabulary cannot be loaded', async () => {
+    const { tokenizer, warning } = await createTokenizer('bpe', '/nonexistent/vocab.tiktoken');
+    assert.equal(tokenizer, charsTokenizer);
+    assert.match(warning ?? '', /^Cannot load BPE vocabulary/);
+  });
+});
+
+describe('formatTokenCount', () => {
+  const cases: Array<[number, string]> = [
+    [999, '999'],
+    [1000, '1k'],
+    [1234, '1.2k'],
+    [12_345, '12k'],
+    [3_400_000, '3.4M'],
+  ];
+  for (const [count, expected] of cases) {
+    test(`${count} → ${expected}`, () => assert.equal(formatTokenCount(count), expected));
+  }
+});
@@ -0,0 +1,128 @@
+// Token 估算：匯出內容大約會佔用多少模型 context
+
+export type Tokenizer = {
+  // 顯示用名稱
+  readonly name: string;
+  count(text: string): number;
+};
+
+export type TokenizerKind = 'chars' | 'bpe';
+
+/**
+ * 預設的粗估：每 4 個字元算 1 個 token
+ * 對英文程式碼大致準確，CJK 文字會低估
+ */
+export const charsTokenizer: Tokenizer = {
+  name: 'chars/4',
+  count: (text) => Math.ceil(text.length / 4),
+};
+
+// cl100k 系列使用的預切分規則（JS 不支援 (?i:)，縮寫部分改為展開大小寫）
+const PRE_TOKENIZE = /'(?:[sSdDmMtT]|[lL][lL]|[vV][eE]|[rR][eE])|[^\r\n\p{L}\p{N}]?\p{L}+|\p{N}{1,3}| ?[^\s\p{L}\p{N}]+[\r\n]*|\s*[\r\n]+|\s+(?!\S)|\s+/gu;
+
+// 每個片段的結果會快取，超過這個數量就整個清掉
+const MAX_CACHE_ENTRIES = 50_000;
+
+/**
+ * 以 BPE 詞表計算 token 數
+ * 詞表為 tiktoken 格式：每行「base64 位元組 rank」
+ */
+export class BpeTokenizer implements Tokenizer {
+  readonly name: string;
+  private cache = new Map<string, number>();
+
+  constructor(name: string, private ranks: Map<string, number>) {
+    this.name = name;
+  }
+
+  count(text: string): number {
+    let total = 0;
+    for (const match of text.matchAll(PRE_TOKENIZE)) {
+      total += this.countPiece(match[0]);
+    }
+    return total;
+  }
+
+  private countPiece(piece: string): number {
+    const cached = this.cache.get(piece);
+    if (cached !== undefined) return cached;
+
+    // 以 latin1 字串表示位元組序列，方便當作 Map key
+    const bytes = Buffer.from(piece, 'utf8').toString('latin1');
+    const count = this.ranks.has(bytes) ? 1 : this.merge(bytes);
+
+    if (this.cache.size >= MAX_CACHE_ENTRIES) this.cache.clear();
+    this.cache.set(piece, count);
+    return count;
+  }
+
+  // 從單一位元組開始，每次合併 rank 最小的相鄰一對，直到無法再合併
+  private merge(bytes: string): number {
+    const parts = bytes.split('');
+    while (parts.length > 1) {
+      let best = -1;
+      let bestRank = Infinity;
+      for (let i = 0; i < parts.length - 1; i++) {
+        const rank = this.ranks.get(parts[i]! + parts[i + 1]!);
+        if (rank !== undefined && rank < bestRank) {
+          best = i;
+          bestRank = rank;
+        }
+      }
+      if (best < 0) break;
+      parts.splice(best, 2, parts[best]! + parts[best + 1]!);
+    }
+    return parts.length;
+  }
+}
+
+/**
+ * 讀取 tiktoken 格式的詞表
+ */
+export async function loadBpeTokenizer(vocabPath: string): Promise<BpeTokenizer> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+  const text = await fs.readFile(vocabPath, 'utf8');
+
+  const ranks = new Map<string, number>();
+  for (const line of text.split('\n')) {
+    const [encoded, rank] = line.trim().split(/\s+/);
+    if (!encoded || rank === undefined) continue;
+    ranks.set(Buffer.from(encoded, 'base64').toString('latin1'), Number(rank));
+  }
+  if (ranks.size === 0) {
+    throw new Error(`No BPE ranks found in ${vocabPath}`);
+  }
+
+  return new BpeTokenizer(path.basename(vocabPath).replace(/\.tiktoken$/, ''), ranks);
+}
+
+/**
+ * 依設定建立 tokenizer
+ * BPE 未指定詞表時使用隨套件附帶的 vocab/cl100k_base.tiktoken；
+ * 讀取失敗時退回 chars/4，並在 warning 說明原因
+ */
+export async function createTokenizer(kind: TokenizerKind, vocabPath?: string): Promise<{ tokenizer: Tokenizer; warning?: string }> {
+  if (kind === 'chars') return { tokenizer: charsTokenizer };
+
+  // src/tokens 與 dist/tokens 到套件根目錄的相對位置相同
+  const { fileURLToPath } = await import('url');
+  const resolved = vocabPath ?? fileURLToPath(new URL('../../vocab/cl100k_base.tiktoken', import.meta.url));
+  try {
+    return { tokenizer: await loadBpeTokenizer(resolved) };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { tokenizer: charsTokenizer, warning: `Cannot load BPE vocabulary (${reason}); using chars/4` };
+  }
+}
+
+/**
+ * 以 1.2k / 3.4M 的形式顯示 token 數
+ */
+export function formatTokenCount(count: number): string {
+  // 小數點後為 0 時省略（8k 而不是 8.0k）
+  const trim = (value: string) => value.replace(/\.0$/, '');
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${trim((count / 1000).toFixed(count < 10_000 ? 1 : 0))}k`;
+  return `${trim((count / 1_000_000).toFixed(1))}M`;
+}
@@ -1,49 +1,99 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Box, Text, useInput, useApp } from 'ink';
-import { GitService } from '../git/GitService.js';
-import type { GitChange } from '../git/types.js';
-
-// 初始化 Git 服務
-const git = new GitService({ cwd: process.cwd() });
+import { GitService, type DiffTarget } from '../git/GitService.js';
+import { DiffView, SplitDiffView, annotateDiff, buildSplitRows } from './DiffView.js';
+import { formatUnifiedDiff, parseUnifiedDiff, selectHunks } from '../git/diffParser.js';
+import { DEFAULT_DIFF_OPTIONS, DIFF_ALGORITHMS, RENAME_THRESHOLDS, describeDiffOptions, diffOptionArgs } from '../git/diffOptions.js';
+import { EXPORT_FORMATS, formatExtension, formatFileSize, formatLabel, type ExportFormat } from '../export/format.js';
+import { exportCodeDump, generateFileOverview, getTimestampedDirName, getTimestampedFileName, resolveExportFilePath, type DumpMode } from '../export/codebase.js';
+import { writeOutput, type OutputResult, type OutputSink } from '../export/sink.js';
+import { DEFAULT_CONFIG, type GdtConfig } from '../config/schema.js';
+import { ACTIONS, createKeymap, formatKey, keyFromInput, type ActionCategory, type ActionId, type Keymap } from './keymap.js';
+import { filterCommands, type PaletteCommand } from './palette.js';
+import { TOKEN_BUDGETS, fitToBudget, type BudgetPolicy } from '../tokens/budget.js';
+import { charsTokenizer, createTokenizer, formatTokenCount, type Tokenizer } from '../tokens/tokenizer.js';
+import type { BranchInfo, CommitItem, CompareRange, DiffOptions, FileClassification, GitChange, GitChangeStatus, GitRef, StashItem } from '../git/types.js';
+
+// 初始化 Git 服務：狀態與檔案清單的路徑都相對於 repo 根目錄，從子目錄啟動時也以根目錄建立
+const git = new GitService({ cwd: await new GitService({ cwd: process.cwd() }).getRepoRoot() });
 
 // 固定捲動單位（行數）
 const SCROLL_LINES = 15;
 
-// C++ 副檔名定義（僅用於合併）
-const HEADER_EXTENSIONS = ['.h', '.hpp', '.hxx', '.hh'];
-const SOURCE_EXTENSIONS = ['.cpp', '.cxx', '.cc', '.c'];
+// 左右並排模式需要的最小終端機寬度，不足時退回 unified
+const SPLIT_MIN_COLUMNS = 120;
 
-// 檔案配對類型
-type FilePair = {
-    baseName: string;
-    dirPath: string;
-    header: string | null;
-    source: string | null;
-};
+// 檔案分組：衝突 / 工作區 / 暫存區 / 與 ref 比較
+type FileGroup = 'conflicts' | 'unstaged' | 'staged' | 'compare';
+
+// 衝突檔案的預覽內容：合併 diff / base / ours / theirs
+type ConflictView = 'diff' | 'base' | 'ours' | 'theirs';
+const CONFLICT_VIEWS: ConflictView[] = ['diff', 'base', 'ours', 'theirs'];
 
 // 統一列表項目類型
 type ListItem = 
-  | { type: 'group'; label: string; count: number }
-  | { type: 'file'; file: GitChange; group: 'unstaged' | 'staged'; node?: TreeNode }
-  | { type: 'directory'; node: TreeNode };
+  | { type: 'group'; label: string; count: number; group: FileGroup }
+  | { type: 'file'; file: GitChange; group: FileGroup; node?: TreeNode; submodule?: string }
+  | { type: 'directory'; node: TreeNode }
+  | { type: 'commit'; commit: CommitItem }
+  | { type: 'stash'; stash: StashItem };
+
+type FileListItem = Extract<ListItem, { type: 'file' }>;
+
+// 鍵盤焦點所在的窗格：左側列表 / 右側預覽
+type FocusPane = 'list' | 'diff';
+
+// 預覽的 diff 排版：unified / 左右並排
+type DiffLayout = 'unified' | 'split';
+
+// Unified diff 的 hunk 標頭（"@@ -a,b +c,d @@"，不含 combined diff 的 "@@@"）
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+// 部分選取的 key（同一路徑在工作區與暫存區可能各有不同的 hunk）
+const getHunkKey = (group: FileGroup, path: string) => `${group}:${path}`;
+
+// submodule 內部的變更（key: submodule 路徑）
+type SubmoduleChanges = Map<string, { unstaged: GitChange[]; staged: GitChange[] }>;
+
+// 頂層模式：工作區變更 / commit 紀錄 / 與 ref 比較 / stash 列表
+type AppMode = 'changes' | 'log' | 'compare' | 'stash';
 
 // 顯示模式
 type ViewMode = 'flat' | 'tree';
 
-// 程式碼 dump 輸出模式
-type DumpMode = 'tree' | 'flat';
+// 多檔 diff 的匯出內容：只有 diff / diff 加上完整檔案內容
+type DiffExportMode = 'diff' | 'diff-with-files';
 
 // 輸入模式
-type InputMode = 'normal' | 'export-path' | 'export-overview' | 'export-code-dump';
+type InputMode = 'normal' | 'export-path' | 'export-overview' | 'export-code-dump' | 'export-conflict' | 'pick-base-ref' | 'diff-options' | 'help' | 'command-palette';
+
+// 需要輸入路徑的模式
+const PATH_INPUT_MODES: InputMode[] = ['export-path', 'export-overview', 'export-code-dump', 'export-conflict'];
+
+// 說明面板的一行：分類標題或動作
+type HelpLine =
+    | { type: 'category'; category: ActionCategory }
+    | { type: 'action'; keys: string; description: string };
+
+// Diff 選項面板的項目（依顯示順序）
+const DIFF_OPTION_ITEMS: Array<{ key: keyof DiffOptions; label: string }> = [
+    { key: 'contextLines', label: 'Context lines (-U)' },
+    { key: 'ignoreAllSpace', label: 'Ignore all whitespace (-w)' },
+    { key: 'ignoreBlankLines', label: 'Ignore blank lines' },
+    { key: 'functionContext', label: 'Function context' },
+    { key: 'algorithm', label: 'Diff algorithm' },
+    { key: 'renameThreshold', label: 'Find renames' },
+];
 
 // 樹狀節點型別
 type TreeNode = {
   name: string;
   path: string;
   type: 'directory' | 'file';
-  children?: TreeNode[];
+  children?: TreeNode[];  // 目錄，或有內部變更的 submodule
   file?: GitChange;  // 只有檔案節點才有
-  group?: 'unstaged' | 'staged';  // 只有檔案節點才有
+  group?: FileGroup;  // 只有檔案節點才有
+  submodule?: string;  // submodule 內部的節點：所屬 submodule 路徑
   depth: number;  // 縮排層級
 };
 
@@ -73,318 +123,160 @@ async function getClipboardContent(): Promise<string> {
     }
 }
 
-// 生成帶時間戳的檔案名
-function getTimestampedFileName(prefix: string = 'diff'): string {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    const hours = String(now.getHours()).padStart(2, '0');
-    const minutes = String(now.getMinutes()).padStart(2, '0');
-    const seconds = String(now.getSeconds()).padStart(2, '0');
-    
-    // 格式: prefix_20251228_212945.txt
-    return `${prefix}_${year}${month}${day}_${hours}${minutes}${seconds}.txt`;
+// 顯示用的目錄：在目前目錄之下時使用相對路徑
+function displayDir(dir: string): string {
+    const cwd = process.cwd();
+    if (dir === cwd) return '.';
+    return dir.startsWith(`${cwd}/`) || dir.startsWith(`${cwd}\\`) ? `./${dir.slice(cwd.length + 1)}` : dir;
 }
 
-// 生成帶時間戳的目錄名
-function getTimestampedDirName(prefix: string = 'code_dump'): string {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    const hours = String(now.getHours()).padStart(2, '0');
-    const minutes = String(now.getMinutes()).padStart(2, '0');
-    const seconds = String(now.getSeconds()).padStart(2, '0');
-    
-    // 格式: code_dump_20251228_215530
-    return `${prefix}_${year}${month}${day}_${hours}${minutes}${seconds}`;
+// 動作目前綁定的按鍵（例如 "e"、"Tab/Ctrl-N"），沒有綁定時為空字串
+function actionKeys(keymap: Keymap, action: ActionId): string {
+    return keymap.keysFor(action).map(formatKey).join('/');
 }
 
-// 檔案大小格式化函數
-function formatFileSize(bytes: number): string {
-    if (bytes === 0) return '0 B';
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
-    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
-    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+// footer 的按鍵提示（例如 "e:Export y:Copy"）：標籤預設使用登錄表的 hint，[動作, 標籤] 可改用其他標籤
+// 沒有綁定按鍵的動作不顯示
+function footerHints(keymap: Keymap, items: Array<ActionId | [ActionId, string]>): string {
+    return items
+        .flatMap(item => {
+            const [id, label] = typeof item === 'string' ? [item, ACTIONS.find(action => action.id === item)?.hint] : item;
+            const keys = actionKeys(keymap, id);
+            return label && keys ? [`${keys}:${label}`] : [];
+        })
+        .join(' ');
 }
 
-// 生成檔案概覽（所有檔案，包括 untracked）
-async function generateFileOverview(): Promise<string> {
-    const path = await import('path');
-    const fs = await import('fs');
-    
-    // ✅ 獲取所有檔案（包括 untracked，排除 gitignore）
-    const allFiles = await git.getAllFiles();
-    
-    // 按目錄分組
-    const grouped = new Map<string, Array<{ name: string; size: number }>>();
-    
-    for (const filePath of allFiles) {
-        const dir = path.dirname(filePath);
-        const name = path.basename(filePath);
-        
-        // 獲取檔案大小
-        let size = 0;
-        try {
-            const fullPath = path.join(process.cwd(), filePath);
-            const stat = fs.statSync(fullPath);
-            size = stat.size;
-        } catch (error) {
-            // 檔案不存在或無法訪問，使用 0
-            size = 0;
-        }
-        
-        if (!grouped.has(dir)) {
-            grouped.set(dir, []);
-        }
-        grouped.get(dir)!.push({ name, size });
-    }
-    
-    // 排序目錄
-    const sortedDirs = Array.from(grouped.keys()).sort();
-    
-    // 生成輸出
-    let output = '';
-    
-    for (const dir of sortedDirs) {
-        const files = grouped.get(dir)!;
-        
-        // 排序檔案
-        files.sort((a, b) => a.name.localeCompare(b.name));
-        
-        // 目錄標題
-        const displayDir = dir === '.' ? '[.]' : `[${dir}]`;
-        output += `${displayDir}\n`;
-        
-        // 列出檔案
-        for (const file of files) {
-            output += `  - ${file.name} (${formatFileSize(file.size)})\n`;
+// 說明面板的內容：依分類列出所有動作與目前的按鍵
+function buildHelpLines(keymap: Keymap): HelpLine[] {
+    const lines: HelpLine[] = [];
+    ACTIONS.forEach((action, i) => {
+        if (ACTIONS[i - 1]?.category !== action.category) {
+            lines.push({ type: 'category', category: action.category });
         }
-        
-        output += '\n';
-    }
-    
-    return output;
+        lines.push({ type: 'action', keys: actionKeys(keymap, action.id) || '(unbound)', description: action.description });
+    });
+    return lines;
 }
 
-// 生成合併的程式碼庫
-async function generateMergedCodebase(mode: DumpMode): Promise<Map<string, string>> {
-    const path = await import('path');
-    const fs = await import('fs');
-    
-    // ✅ 獲取所有檔案（包括 untracked，排除 gitignore）
-    const allFiles = await git.getAllFiles();
-    
-    // 分類檔案
-    const headers: string[] = [];
-    const sources: string[] = [];
-    const otherFiles: string[] = [];
-    
-    for (const file of allFiles) {
-        const ext = path.extname(file).toLowerCase();
-        
-        if (HEADER_EXTENSIONS.includes(ext)) {
-            headers.push(file);
-        } else if (SOURCE_EXTENSIONS.includes(ext)) {
-            sources.push(file);
-        } else {
-            // ✅ 所有其他檔案都保留（js, ts, hlsl, txt, 等等）
-            otherFiles.push(file);
-        }
-    }
-    
-    // 建立檔案配對映射
-    const pairMap = new Map<string, FilePair>();
-    
-    // 處理 headers
-    for (const headerPath of headers) {
-        const dir = path.dirname(headerPath);
-        const baseName = path.basename(headerPath, path.extname(headerPath));
-        const key = `${dir}|${baseName}`;
-        
-        if (!pairMap.has(key)) {
-            pairMap.set(key, {
-                baseName,
-                dirPath: dir,
-                header: headerPath,
-                source: null,
-            });
-        }
-    }
-    
-    // 配對 sources
-    const unmatchedSources: string[] = [];
-    for (const sourcePath of sources) {
-        const dir = path.dirname(sourcePath);
-        const baseName = path.basename(sourcePath, path.extname(sourcePath));
-        const key = `${dir}|${baseName}`;
-        
-        if (pairMap.has(key)) {
-            pairMap.get(key)!.source = sourcePath;
-        } else {
-            // ✅ 獨立的 .cpp 也要匯出（沒有對應 header）
-            unmatchedSources.push(sourcePath);
-        }
-    }
-    
-    // 生成合併檔案內容
-    const outputFiles = new Map<string, string>();
-    const now = new Date();
-    const timestamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:${String(now.getSeconds()).padStart(2, '0')}`;
-    
-    // 處理配對的 C++ 檔案
-    for (const [key, pair] of pairMap) {
-        const { baseName, dirPath, header, source } = pair;
-        
-        const outputFileName = mode === 'flat'
-            ? `${dirPath === '.' ? '' : dirPath.replace(/[/\\]/g, '_') + '_'}${baseName}_merged.cpp`
-            : `${dirPath}/${baseName}_merged.cpp`;
-        
-        let content = '';
-        content += '// ============================================================================\n';
-        content += `// 合併檔案: ${baseName}\n`;
-        content += `// 原始路徑: ${dirPath}\n`;
-        content += `// 合併時間: ${timestamp}\n`;
-        content += `// 輸出模式: ${mode === 'flat' ? '扁平化' : '目錄結構'}\n`;
-        
-        if (header && source) {
-            // 合併 header 和 source
-            content += `// Header: ${path.basename(header)}\n`;
-            content += `// Source: ${path.basename(source)}\n`;
-            content += '// ============================================================================\n\n';
-            content += `// -------------------- Header File: ${path.basename(header)} --------------------\n\n`;
-            
-            try {
-                const headerContent = fs.readFileSync(path.join(process.cwd(), header), 'utf8');
-                content += headerContent;
-            } catch (error) {
-                content += `// Error reading header: ${error}\n`;
-            }
-            
-            content += '\n\n';
-            content += `// -------------------- Source File: ${path.basename(source)} --------------------\n\n`;
-            
-            try {
-                const sourceContent = fs.readFileSync(path.join(process.cwd(), source), 'utf8');
-                content += sourceContent;
-            } catch (error) {
-                content += `// Error reading source: ${error}\n`;
-            }
-        } else if (header) {
-            // 只有 header
-            content += `// Header: ${path.basename(header)}\n`;
-            content += '// Source: (無對應的 source 檔案)\n';
-            content += '// ============================================================================\n\n';
-            
-            try {
-                const headerContent = fs.readFileSync(path.join(process.cwd(), header), 'utf8');
-                content += headerContent;
-            } catch (error) {
-                content += `// Error reading header: ${error}\n`;
-            }
-        } else if (source) {
-            // 只有 source
-            content += `// Header: (無對應的 header 檔案)\n`;
-            content += `// Source: ${path.basename(source)}\n`;
-            content += '// ============================================================================\n\n';
-            
-            try {
-                const sourceContent = fs.readFileSync(path.join(process.cwd(), source), 'utf8');
-                content += sourceContent;
-            } catch (error) {
-                content += `// Error reading source: ${error}\n`;
-            }
-        }
-        
-        outputFiles.set(outputFileName, content);
-    }
-    
-    // ✅ 處理獨立的 source 檔案（沒有對應 header 的 .cpp）
-    for (const sourcePath of unmatchedSources) {
-        const dir = path.dirname(sourcePath);
-        const baseName = path.basename(sourcePath);
-        
-        const outputFileName = mode === 'flat'
-            ? `${dir === '.' ? '' : dir.replace(/[/\\]/g, '_') + '_'}${baseName}`
-            : `${dir}/${baseName}`;
-        
-        let content = '';
-        content += '// ============================================================================\n';
-        content += `// 獨立檔案: ${baseName}\n`;
-        content += `// 原始路徑: ${dir}\n`;
-        content += `// 匯出時間: ${timestamp}\n`;
-        content += '// ============================================================================\n\n';
-        
-        try {
-            const fileContent = fs.readFileSync(path.join(process.cwd(), sourcePath), 'utf8');
-            content += fileContent;
-        } catch (error) {
-            content += `// Error reading file: ${error}\n`;
-        }
-        
-        outputFiles.set(outputFileName, content);
+// Binary 檔案的預覽資訊卡
+function formatBinaryCard(filePath: string, info: FileClassification): string {
+    const lines = [
+        'Binary file',
+        '',
+        `  Path: ${filePath}`,
+        `  Size: ${formatFileSize(info.size)}`,
+        `  Type: ${info.type}`,
+        '',
+        '(Contents are not shown; exports replace them with a one-line placeholder)',
+    ];
+    const width = Math.max(...lines.map(l => l.length)) + 2;
+    const border = '─'.repeat(width);
+    return [
+        `┌${border}┐`,
+        ...lines.map(l => `│ ${l.padEnd(width - 2)} │`),
+        `└${border}┘`,
+    ].join('\n');
+}
+
+// 依分組取得對應的狀態
+// - staged: index 狀態 (X)
+// - unstaged: 工作區狀態 (Y)
+// - compare: 範圍 diff 的狀態
+function getGroupStatus(file: GitChange, group: FileGroup): GitChangeStatus {
+    if (file.kind === 'unmerged' || file.kind === 'untracked') return file.status;
+    if (group === 'staged' && file.index !== '.') return file.index;
+    if (group === 'unstaged' && file.worktree !== '.') return file.worktree;
+    return file.status;
+}
+
+// 列表上顯示的狀態文字；衝突顯示完整 XY（UU, AA, DU...）
+function getStatusLabel(file: GitChange, group: FileGroup): string {
+    if (file.kind === 'unmerged') return `${file.index}${file.worktree}`;
+    return getGroupStatus(file, group);
+}
+
+// 狀態顏色
+function getStatusColor(status: GitChangeStatus): string {
+    switch (status) {
+        case '?':
+        case 'A':
+            return 'green';
+        case 'M':
+            return 'yellow';
+        case 'D':
+            return 'red';
+        case 'R':
+        case 'C':
+            return 'cyan';
+        case 'T':
+            return 'magenta';
+        case 'U':
+            return 'redBright';
+        default:
+            return 'white';
     }
-    
-    // ✅ 處理所有其他檔案（js, ts, hlsl, txt, json, 等等）
-    for (const filePath of otherFiles) {
-        const dir = path.dirname(filePath);
-        const fileName = path.basename(filePath);
-        
-        const outputFileName = mode === 'flat'
-            ? `${dir === '.' ? '' : dir.replace(/[/\\]/g, '_') + '_'}${fileName}`
-            : `${dir}/${fileName}`;
-        
-        let content = '';
-        
-        try {
-            const fileContent = fs.readFileSync(path.join(process.cwd(), filePath), 'utf8');
-            content = fileContent;
-        } catch (error) {
-            content = `// Error reading file: ${error}\n`;
-        }
-        
-        outputFiles.set(outputFileName, content);
+}
+
+// 將 submodule 內部的變更轉為以 repo 根目錄為基準的路徑（顯示與選取用）
+function prefixSubmodulePaths(files: GitChange[], submodulePath: string): GitChange[] {
+    return files.map(f => ({
+        ...f,
+        path: `${submodulePath}/${f.path}`,
+        ...(f.oldPath && { oldPath: `${submodulePath}/${f.oldPath}` }),
+    }));
+}
+
+// 調整一個 diff 選項：數值增減、布林切換、列舉循環（direction: 1 / -1）
+function adjustDiffOption(options: DiffOptions, key: keyof DiffOptions, direction: 1 | -1): DiffOptions {
+    const cycle = <T,>(values: T[], current: T) =>
+        values[(values.indexOf(current) + direction + values.length) % values.length]!;
+
+    switch (key) {
+        case 'contextLines':
+            return { ...options, contextLines: Math.max(0, Math.min(999, options.contextLines + direction)) };
+        case 'algorithm':
+            return { ...options, algorithm: cycle(DIFF_ALGORITHMS, options.algorithm) };
+        case 'renameThreshold':
+            return { ...options, renameThreshold: cycle(RENAME_THRESHOLDS, options.renameThreshold) };
+        default:
+            return { ...options, [key]: !options[key] };
     }
-    
-    return outputFiles;
 }
 
-// 生成匯出摘要
-function generateDumpSummary(files: Map<string, string>, outputDir: string, mode: DumpMode): string {
-    const now = new Date();
-    const timestamp = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')} ${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}:${String(now.getSeconds()).padStart(2, '0')}`;
-    
-    let summary = '';
-    summary += '='.repeat(80) + '\n';
-    summary += 'Code Dump Summary\n';
-    summary += '='.repeat(80) + '\n\n';
-    summary += `Export Time: ${timestamp}\n`;
-    summary += `Source Directory: ${process.cwd()}\n`;
-    summary += `Output Directory: ${outputDir}\n`;
-    summary += `Output Mode: ${mode === 'flat' ? 'Flattened' : 'Directory Tree'}\n\n`;
-    summary += `Statistics:\n`;
-    summary += `  - Total Files: ${files.size}\n\n`;
-    summary += '='.repeat(80) + '\n';
-    summary += 'File List\n';
-    summary += '='.repeat(80) + '\n\n';
-    
-    const sortedFiles = Array.from(files.keys()).sort();
-    for (const fileName of sortedFiles) {
-        summary += `  ${fileName}\n`;
+// 顯示用的選項值
+function formatDiffOption(options: DiffOptions, key: keyof DiffOptions): string {
+    const value = options[key];
+    if (key === 'renameThreshold') {
+        return value === null ? 'git default' : value === 0 ? 'off' : `${value}%`;
     }
-    
-    summary += '\n' + '='.repeat(80) + '\n';
-    if (mode === 'flat') {
-        summary += 'Note: In flat mode, path information is encoded in filenames\n';
-        summary += '      Path separators \'/\' and \'\\\' are replaced with \'_\'\n';
-    } else {
-        summary += 'Note: Directory structure is preserved\n';
+    if (typeof value === 'boolean') return value ? 'on' : 'off';
+    return String(value);
+}
+
+// 列表項目轉為 GitService 的 diff 目標（submodule 內部檔案使用相對路徑）
+function toDiffTarget(item: FileListItem): DiffTarget {
+    const target: DiffTarget = {
+        path: item.submodule ? item.file.path.slice(item.submodule.length + 1) : item.file.path,
+        staged: item.group === 'staged',
+        status: item.file.status,
+    };
+    if (item.submodule) target.submodule = item.submodule;
+    // 與 ref 比較時的狀態不是 git status 的 X / Y
+    if (item.group !== 'compare') {
+        target.index = item.file.index;
+        target.worktree = item.file.worktree;
     }
-    summary += '='.repeat(80) + '\n';
-    
-    return summary;
+    return target;
+}
+
+// 依匯出設定轉換單一檔案的 diff（估算 token 用）：只保留選取的 hunk、word diff 格式
+function renderEstimate(text: string, hunks: Set<number> | undefined, wordDiff: boolean): string {
+    if (!hunks && !wordDiff) return text;
+    const files = parseUnifiedDiff(text);
+    if (files.length === 0 || files.some(f => f.isCombined)) return text;
+    const selected = hunks ? files.map(f => selectHunks(f, hunks)) : files;
+    return formatUnifiedDiff(selected, { wordDiff });
 }
 
 // 自製 Hook：取得終端機寬高
@@ -412,7 +304,7 @@ function useWindowSize() {
 }
 
 // 建立檔案樹結構
-const buildFileTree = (files: GitChange[], group: 'unstaged' | 'staged'): TreeNode[] => {
+const buildFileTree = (files: GitChange[], group: FileGroup, submoduleChanges?: SubmoduleChanges): TreeNode[] => {
     const root: Map<string, TreeNode> = new Map();
     
     files.forEach(file => {
@@ -438,6 +330,15 @@ const buildFileTree = (files: GitChange[], group: 'unstaged' | 'staged'): TreeNo
                     ...(isFile && { file, group }),
                     ...(!isFile && { children: [] }),
                 };
+
+                // Submodule：把內部變更掛成子節點
+                const inner = isFile && file.submodule ? submoduleChanges?.get(file.path) : undefined;
+                if (inner) {
+                    node.children = [
+                        ...buildSubmoduleNodes(inner.unstaged, 'unstaged', file.path, depth + 1),
+                        ...buildSubmoduleNodes(inner.staged, 'staged', file.path, depth + 1),
+                    ];
+                }
                 root.set(currentPath, node);
                 
                 // 連結到父節點
@@ -455,6 +356,20 @@ const buildFileTree = (files: GitChange[], group: 'unstaged' | 'staged'): TreeNo
     return Array.from(root.values()).filter(node => !node.path.includes('/'));
 };
 
+// 建立 submodule 內部的樹狀節點（路徑加上 submodule 前綴，深度接在 submodule 節點之後）
+const buildSubmoduleNodes = (files: GitChange[], group: FileGroup, submodulePath: string, baseDepth: number): TreeNode[] => {
+    const adjust = (node: TreeNode): TreeNode => ({
+        ...node,
+        path: `${submodulePath}/${node.path}`,
+        depth: node.depth + baseDepth,
+        submodule: submodulePath,
+        ...(node.file && { file: prefixSubmodulePaths([node.file], submodulePath)[0]! }),
+        ...(node.children && { children: node.children.map(adjust) }),
+    });
+
+    return buildFileTree(files, group).map(adjust);
+};
+
 // 扁平化樹狀結構（用於渲染）
 const flattenTree = (nodes: TreeNode[], collapsed: Set<string> = new Set()): TreeNode[] => {
     const result: TreeNode[] = [];
@@ -463,8 +378,8 @@ const flattenTree = (nodes: TreeNode[], collapsed: Set<string> = new Set()): Tre
         nodes.forEach(node => {
             result.push(node);
             
-            // 如果是目錄且未收合，繼續遍歷子節點
-            if (node.type === 'directory' && !collapsed.has(node.path) && node.children) {
+            // 如果是目錄（或有內部變更的 submodule）且未收合，繼續遍歷子節點
+            if (!collapsed.has(node.path) && node.children) {
                 traverse(node.children);
             }
         });
@@ -474,12 +389,47 @@ const flattenTree = (nodes: TreeNode[], collapsed: Set<string> = new Set()): Tre
     return result;
 };
 
-export const App = () => {
+export const App = ({ config = DEFAULT_CONFIG }: { config?: GdtConfig }) => {
     const { exit } = useApp();
     const [columns, rows] = useWindowSize();
 
+    const [branch, setBranch] = useState<BranchInfo | null>(null);
     const [stagedFiles, setStagedFiles] = useState<GitChange[]>([]);
     const [unstagedFiles, setUnstagedFiles] = useState<GitChange[]>([]);
+    const [conflictedFiles, setConflictedFiles] = useState<GitChange[]>([]);
+    const [submoduleChanges, setSubmoduleChanges] = useState<SubmoduleChanges>(new Map());
+
+    // Submodule 的 diff 顯示方式：內部檔案 diff（--submodule=diff）或 commit 指標
+    const [submoduleDiff, setSubmoduleDiff] = useState(true);
+
+    // 匯出 diff 時使用 --word-diff=plain（[-舊-]{+新+}）
+    const [wordDiffExport, setWordDiffExport] = useState(false);
+
+    // Token 估算方式與匯出預算（null 表示不限制）
+    const [tokenizer, setTokenizer] = useState<Tokenizer>(charsTokenizer);
+    const [tokenBudget, setTokenBudget] = useState<number | null>(config.tokenBudget);
+    const [budgetPolicy, setBudgetPolicy] = useState<BudgetPolicy>('warn');
+
+    // 各檔案的 diff（估算 token 用，key: getHunkKey）
+    const [diffTexts, setDiffTexts] = useState<Map<string, string>>(new Map());
+
+    // Diff 選項（預覽與所有匯出共用）與選項面板的焦點
+    const [diffOptions, setDiffOptions] = useState<DiffOptions>(config.diffOptions);
+    const [diffOptionIndex, setDiffOptionIndex] = useState(0);
+    const [commits, setCommits] = useState<CommitItem[]>([]);
+    const [stashes, setStashes] = useState<StashItem[]>([]);
+
+    // 頂層模式
+    const [appMode, setAppMode] = useState<AppMode>('changes');
+
+    // 與 ref 比較（PR diff 模式）
+    const [compareRange, setCompareRange] = useState<CompareRange | null>(null);
+    const [compareFiles, setCompareFiles] = useState<GitChange[]>([]);
+
+    // Base ref 選擇器
+    const [refs, setRefs] = useState<GitRef[]>([]);
+    const [refIndex, setRefIndex] = useState(0);
+    const [compareTarget, setCompareTarget] = useState<CompareRange['target']>('HEAD');
 
     // 列表焦點 index
     const [selectedIndex, setSelectedIndex] = useState(0);
@@ -491,11 +441,27 @@ export const App = () => {
     // 統一多選狀態（用 path 作為 key）
     const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
 
+    // 只選取部分 hunk 的檔案（key: getHunkKey，value: hunk 索引）
+    const [hunkSelections, setHunkSelections] = useState<Map<string, Set<number>>>(new Map());
+
+    // 鍵盤焦點窗格與預覽中的焦點 hunk
+    const [focusPane, setFocusPane] = useState<FocusPane>('list');
+    const [focusedHunk, setFocusedHunk] = useState(0);
+
+    // Commit 多選狀態（用 hash 作為 key）
+    const [selectedCommits, setSelectedCommits] = useState<Set<string>>(new Set());
+
     // 顯示模式
-    const [viewMode, setViewMode] = useState<ViewMode>('flat');
+    const [viewMode, setViewMode] = useState<ViewMode>(config.viewMode);
 
     // 程式碼 dump 輸出模式
-    const [dumpMode, setDumpMode] = useState<DumpMode>('tree');
+    const [dumpMode, setDumpMode] = useState<DumpMode>(config.dumpMode);
+
+    // 多檔 diff 匯出模式
+    const [diffExportMode, setDiffExportMode] = useState<DiffExportMode>('diff');
+
+    // 匯出格式（多檔 diff、概覽、code dump 共用）
+    const [exportFormat, setExportFormat] = useState<ExportFormat>(config.format);
 
     // 追蹤目錄收合狀態
     const [collapsedDirs, setCollapsedDirs] = useState<Set<string>>(new Set());
@@ -503,108 +469,320 @@ export const App = () => {
     // Diff 內容
     const [diffContent, setDiffContent] = useState('');
 
+    // 衝突檔案的預覽內容
+    const [conflictView, setConflictView] = useState<ConflictView>('diff');
+
+    // Diff 排版
+    const [diffLayout, setDiffLayout] = useState<DiffLayout>('unified');
+
     // 匯出狀態提示
     const [exportStatus, setExportStatus] = useState<string>('');
 
     // 輸入模式
     const [inputMode, setInputMode] = useState<InputMode>('normal');
 
+    // 按鍵對照（預設按鍵 + 設定檔的覆寫）與說明面板的捲動位置
+    const keymap = useMemo(() => createKeymap(config.keys), [config.keys]);
+    const helpLines = useMemo(() => buildHelpLines(keymap), [keymap]);
+    const [helpScrollTop, setHelpScrollTop] = useState(0);
+
+    // 命令面板的焦點（過濾文字使用 pathInput）
+    const [paletteIndex, setPaletteIndex] = useState(0);
+
+    // 重新整理的次數（'r'：改變時重新載入清單與預覽）
+    const [reloadCount, setReloadCount] = useState(0);
+
     // 路徑輸入緩衝
     const [pathInput, setPathInput] = useState('./diff.txt');
 
     // 游標位置（用於編輯體驗）
     const [cursorPosition, setCursorPosition] = useState(0);
 
+    // 加入一個分組（支援扁平與樹狀兩種模式）
+    const pushGroup = (items: ListItem[], label: string, files: GitChange[], group: FileGroup) => {
+        if (files.length === 0) return;
+        items.push({ type: 'group', label, count: files.length, group });
+
+        if (viewMode === 'flat') {
+            files.forEach(file => {
+                items.push({ type: 'file', file, group });
+
+                // Submodule：內部變更緊接在 submodule 之後
+                const inner = group === 'unstaged' && file.submodule ? submoduleChanges.get(file.path) : undefined;
+                if (inner) {
+                    prefixSubmodulePaths(inner.unstaged, file.path).forEach(f => {
+                        items.push({ type: 'file', file: f, group: 'unstaged', submodule: file.path });
+                    });
+                    prefixSubmodulePaths(inner.staged, file.path).forEach(f => {
+                        items.push({ type: 'file', file: f, group: 'staged', submodule: file.path });
+                    });
+                }
+            });
+            return;
+        }
+
+        const tree = buildFileTree(files, group, group === 'unstaged' ? submoduleChanges : undefined);
+        const flatTree = flattenTree(tree, collapsedDirs);
+        items.push(...flatTree.map(node => {
+            if (node.type === 'file') {
+                return { 
+                    type: 'file' as const,
+                    file: node.file!,
+                    group: node.group!,
+                    node,
+                    ...(node.submodule && { submodule: node.submodule }),
+                };
+            } else {
+                return {
+                    type: 'directory' as const,
+                    node
+                };
+            }
+        }));
+    };
+
     // 建立統一列表（支援兩種模式）
     const allItems: ListItem[] = useMemo(() => {
         const items: ListItem[] = [];
         
-        if (viewMode === 'flat') {
-            // 原有的扁平模式
-            if (unstagedFiles.length > 0) {
-                items.push({ type: 'group', label: 'Changes', count: unstagedFiles.length });
-                unstagedFiles.forEach(file => {
-                    items.push({ type: 'file', file, group: 'unstaged' });
-                });
-            }
-            
-            if (stagedFiles.length > 0) {
-                items.push({ type: 'group', label: 'Staged Changes', count: stagedFiles.length });
-                stagedFiles.forEach(file => {
-                    items.push({ type: 'file', file, group: 'staged' });
-                });
+        if (appMode === 'log') {
+            // Commit 紀錄模式
+            commits.forEach(commit => {
+                items.push({ type: 'commit', commit });
+            });
+        } else if (appMode === 'stash') {
+            // Stash 列表模式
+            stashes.forEach(stash => {
+                items.push({ type: 'stash', stash });
+            });
+        } else if (appMode === 'compare') {
+            // 與 ref 比較模式
+            if (compareRange) {
+                const target = compareRange.target === 'HEAD' ? 'HEAD' : 'Working Tree';
+                pushGroup(items, `${compareRange.base}...${target}`, compareFiles, 'compare');
             }
         } else {
-            // 樹狀模式
-            if (unstagedFiles.length > 0) {
-                items.push({ type: 'group', label: 'Changes', count: unstagedFiles.length });
-                const tree = buildFileTree(unstagedFiles, 'unstaged');
-                const flatTree = flattenTree(tree, collapsedDirs);
-                items.push(...flatTree.map(node => {
-                    if (node.type === 'file') {
-                        return { 
-                            type: 'file' as const,
-                            file: node.file!,
-                            group: node.group!,
-                            node
-                        };
-                    } else {
-                        return {
-                            type: 'directory' as const,
-                            node
-                        };
-                    }
-                }));
-            }
-            
-            if (stagedFiles.length > 0) {
-                items.push({ type: 'group', label: 'Staged Changes', count: stagedFiles.length });
-                const tree = buildFileTree(stagedFiles, 'staged');
-                const flatTree = flattenTree(tree, collapsedDirs);
-                items.push(...flatTree.map(node => {
-                    if (node.type === 'file') {
-                        return { 
-                            type: 'file' as const,
-                            file: node.file!,
-                            group: node.group!,
-                            node
-                        };
-                    } else {
-                        return {
-                            type: 'directory' as const,
-                            node
-                        };
-                    }
-                }));
-            }
+            pushGroup(items, 'Merge Conflicts', conflictedFiles, 'conflicts');
+            pushGroup(items, 'Changes', unstagedFiles, 'unstaged');
+            pushGroup(items, 'Staged Changes', stagedFiles, 'staged');
         }
         
         return items;
-    }, [unstagedFiles, stagedFiles, viewMode, collapsedDirs]);
+    }, [appMode, commits, stashes, compareRange, compareFiles, conflictedFiles, unstagedFiles, stagedFiles, submoduleChanges, viewMode, collapsedDirs]);
 
     // 載入清單
     useEffect(() => {
         const load = async () => {
             try {
-                const u = await git.getUnstagedFiles();
-                const s = await git.getStagedFiles();
+                // 只執行一次 git status，再依分組切開
+                const { branch, unstaged: u, staged: s, conflicted: c } = await git.getChangeGroups();
+                setConflictedFiles(c);
                 setUnstagedFiles(u);
                 setStagedFiles(s);
+                setBranch(branch);
+
+                // 有內部變更的 submodule：用 submodule 自己的 GitService 取得變更
+                const inner: SubmoduleChanges = new Map();
+                for (const f of u) {
+                    if (f.submodule && (f.submodule.trackedChanges || f.submodule.untrackedChanges)) {
+                        inner.set(f.path, await git.getSubmoduleChanges(f.path));
+                    }
+                }
+                setSubmoduleChanges(inner);
             } catch (error) {
                 // 簡單錯誤顯示，實際可做更漂亮的 ErrorBoundary
                 setDiffContent(`Error loading files: ${error}`);
             }
         };
         load();
-    }, []);
+    }, [reloadCount]);
+
+    // 設定檔的 tokenizer 為 bpe 時改用 BPE 詞表估算（bpeVocab 指定詞表路徑，未指定時使用附帶的詞表）
+    // 詞表無法使用時退回 chars/4，並在狀態列說明
+    useEffect(() => {
+        if (config.tokenizer !== 'bpe') return;
+        createTokenizer('bpe', config.bpeVocab ?? undefined).then(({ tokenizer, warning }) => {
+            setTokenizer(tokenizer);
+            if (warning) {
+                setExportStatus(`⚠ ${warning}`);
+                setTimeout(() => setExportStatus(''), 5000);
+            }
+        });
+    }, [config.tokenizer, config.bpeVocab]);
+
+    // 一次取得所有變更的 diff 並依檔案切開，用於估算每個檔案的 token 數
+    // （submodule 內部的檔案不估算）
+    useEffect(() => {
+        let cancelled = false;
+        const loadTexts = async () => {
+            const texts = new Map<string, string>();
+            const options = { submoduleDiff, diffOptions };
+            try {
+                if (appMode === 'compare' && compareRange) {
+                    const byFile = await git.getDiffsByFile({ staged: false, range: compareRange, ...options });
+                    byFile.forEach((text, path) => texts.set(getHunkKey('compare', path), text));
+                } else if (appMode === 'changes') {
+                    const untracked = unstagedFiles.filter(f => f.kind === 'untracked').map(f => f.path);
+                    const unstaged = await git.getDiffsByFile({ staged: false, untracked, ...options });
+                    const staged = await git.getDiffsByFile({ staged: true, ...options });
+                    unstaged.forEach((text, path) => texts.set(getHunkKey('unstaged', path), text));
+                    staged.forEach((text, path) => texts.set(getHunkKey('staged', path), text));
+                    // 衝突檔案的 combined diff 出現在工作區的 diff 中
+                    conflictedFiles.forEach(f => {
+                        const text = unstaged.get(f.path);
+                        if (text) texts.set(getHunkKey('conflicts', f.path), text);
+                    });
+                }
+            } catch {
+                // 估算失敗時不顯示
+            }
+            if (!cancelled) setDiffTexts(texts);
+        };
+        loadTexts();
+        return () => {
+            cancelled = true;
+        };
+    }, [appMode, compareRange, unstagedFiles, stagedFiles, conflictedFiles, submoduleDiff, diffOptions]);
+
+    // 進入 log 模式時載入 commit 紀錄
+    useEffect(() => {
+        if (appMode !== 'log') return;
+        const loadLog = async () => {
+            try {
+                setCommits(await git.getLog());
+            } catch (error) {
+                setDiffContent(`Error loading log: ${error}`);
+            }
+        };
+        loadLog();
+    }, [appMode, reloadCount]);
+
+    // 進入 stash 模式時載入 stash 列表
+    useEffect(() => {
+        if (appMode !== 'stash') return;
+        const loadStashes = async () => {
+            try {
+                setStashes(await git.getStashes());
+            } catch (error) {
+                setDiffContent(`Error loading stashes: ${error}`);
+            }
+        };
+        loadStashes();
+    }, [appMode, reloadCount]);
 
     // 計算當前選中項
     const currentItem = allItems[selectedIndex];
     const currentFile = currentItem?.type === 'file' ? currentItem.file : null;
     const currentGroup = currentItem?.type === 'file' ? currentItem.group : null;
+    const currentSubmodule = currentItem?.type === 'file' ? currentItem.submodule ?? null : null;
+    const currentCommit = currentItem?.type === 'commit' ? currentItem.commit : null;
+    const currentStash = currentItem?.type === 'stash' ? currentItem.stash : null;
+
+    // 預覽內容
+    const diffLines = useMemo(() => diffContent.split('\n'), [diffContent]);
+
+    // 左右並排：由解析後的 diff 建立（combined diff 與沒有 diff 的內容維持 unified）
+    const splitRows = useMemo(() => {
+        if (diffLayout !== 'split') return [];
+        const files = parseUnifiedDiff(diffContent);
+        if (files.length === 0 || files.some(f => f.isCombined)) return [];
+        const firstDiff = diffLines.findIndex(line => line.startsWith('diff '));
+        return buildSplitRows(files, diffLines.slice(0, Math.max(0, firstDiff)));
+    }, [diffLayout, diffContent, diffLines]);
+    const splitActive = splitRows.length > 0 && columns >= SPLIT_MIN_COLUMNS;
+    const previewLength = splitActive ? splitRows.length : diffLines.length;
+
+    // 每個 hunk 標頭所在的行（衝突檔案的 combined diff 不支援 hunk 選取）
+    const hunkLines = useMemo(() => {
+        if (!currentFile || !currentGroup || currentGroup === 'conflicts') return [];
+        const lines: number[] = [];
+        if (splitActive) {
+            splitRows.forEach((row, i) => {
+                if (row.type === 'hunk') lines.push(i);
+            });
+        } else {
+            diffLines.forEach((line, i) => {
+                if (HUNK_HEADER.test(line)) lines.push(i);
+            });
+        }
+        return lines;
+    }, [diffLines, splitRows, splitActive, currentFile, currentGroup]);
+    // 衝突檔案的 stage 內容沒有 diff 標頭，以檔名決定語法高亮
+    const annotatedDiff = useMemo(
+        () => annotateDiff(diffLines, currentGroup === 'conflicts' && conflictView !== 'diff' ? currentFile?.path : undefined),
+        [diffLines, currentGroup, conflictView, currentFile]
+    );
+    const currentHunkKey = currentFile && currentGroup ? getHunkKey(currentGroup, currentFile.path) : null;
+    const currentHunks = currentHunkKey ? hunkSelections.get(currentHunkKey) : undefined;
+
+    // 每個檔案匯出後的 token 估算（依 word diff 設定轉換）
+    const fileTokens = useMemo(() => {
+        const counts = new Map<string, number>();
+        diffTexts.forEach((text, key) => counts.set(key, tokenizer.count(renderEstimate(text, undefined, wordDiffExport))));
+        return counts;
+    }, [diffTexts, tokenizer, wordDiffExport]);
+
+    // 目前選取內容的 token 估算（部分選取的檔案只計算選取的 hunk）
+    const selectionTokens = useMemo(() => {
+        let total = 0;
+        for (const item of allItems) {
+            if (item.type !== 'file') continue;
+            const key = getHunkKey(item.group, item.file.path);
+            if (selectedPaths.has(item.file.path)) {
+                total += fileTokens.get(key) ?? 0;
+            } else {
+                const hunks = hunkSelections.get(key);
+                const text = diffTexts.get(key);
+                if (hunks && text) total += tokenizer.count(renderEstimate(text, hunks, wordDiffExport));
+            }
+        }
+        return total;
+    }, [allItems, selectedPaths, hunkSelections, diffTexts, fileTokens, tokenizer, wordDiffExport]);
+    const overBudget = tokenBudget !== null && selectionTokens > tokenBudget;
+
+    // 匯出內容超過預算時的警告（沒有設定預算或未超過時為空字串）
+    const getBudgetWarning = (content: string): string => {
+        if (tokenBudget === null) return '';
+        const tokens = tokenizer.count(content);
+        return tokens > tokenBudget
+            ? `  ⚠ ~${formatTokenCount(tokens)} tokens exceeds the ${formatTokenCount(tokenBudget)} budget`
+            : '';
+    };
 
-    // 匯出單一檔案 diff
-    const handleExportSingle = async () => {
+    // 只有多檔 diff 的匯出可以自動縮減到預算內
+    const canTrim = inputMode === 'export-path' && (appMode === 'changes' || appMode === 'compare');
+
+    // 可以選擇匯出格式的對話框：多檔 diff、概覽、code dump
+    const canChooseFormat = canTrim || inputMode === 'export-overview' || inputMode === 'export-code-dump';
+
+    // 匯出完成的狀態訊息：寫入檔案時顯示檔名，複製到剪貼簿時顯示大小與使用的方式
+    const showExportResult = async (output: OutputSink, result: OutputResult, label: string, content: string, notes: string[] = []) => {
+        const path = await import('path');
+        const summary = output.kind === 'clipboard'
+            ? `✓ Copied ${label} to clipboard (${[`${formatFileSize(result.bytes)} via ${result.method}`, ...notes].join(', ')})`
+            : `✓ Exported ${label} to ${path.basename(result.destination)}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+        const warning = result.warning ? `  ⚠ ${result.warning}` : '';
+        setExportStatus(`${summary}${warning}${getBudgetWarning(content)}`);
+        setTimeout(() => setExportStatus(''), warning || notes.length > 0 ? 5000 : 3000);
+    };
+
+    // 將匯出內容寫到輸出位置（檔案或剪貼簿）並顯示結果
+    const deliverExport = async (output: OutputSink, content: string, label: string, notes: string[] = []) => {
+        await showExportResult(output, await writeOutput(output, content), label, content, notes);
+    };
+
+    // 匯出檔案的輸出位置：copy 時為剪貼簿，否則解析路徑（目錄時補上時間戳檔名）
+    const resolveOutput = async (copy: boolean, outputPath: string, prefix: string, extension?: string): Promise<OutputSink> =>
+        copy ? { kind: 'clipboard' } : { kind: 'file', path: await resolveExportFilePath(outputPath, prefix, extension) };
+
+    // 依輸入文字過濾 ref
+    const filteredRefs = useMemo(() => {
+        const query = pathInput.trim().toLowerCase();
+        return query === '' ? refs : refs.filter(ref => ref.name.toLowerCase().includes(query));
+    }, [refs, pathInput]);
+
+    // 匯出單一檔案 diff（copy: 複製到剪貼簿）
+    const handleExportSingle = async (copy = false) => {
         if (!currentFile || !currentGroup) {
             setExportStatus('No file selected');
             setTimeout(() => setExportStatus(''), 2000);
@@ -612,131 +790,218 @@ export const App = () => {
         }
         
         try {
-            const outputPath = './diff.txt';
-            const fs = await import('fs/promises');
-            
-            // 檢查檔案是否存在
-            try {
-                await fs.access(outputPath);
-                // 檔案已存在，直接覆蓋（可以改為提示用戶）
-                // 這裡選擇直接覆蓋，因為是簡單的 TUI 工具
-            } catch {
-                // 檔案不存在，繼續匯出
-            }
-            
-            await git.exportDiff({
-                path: currentFile.path,
+            // submodule 內部檔案交給 submodule 的 GitService
+            const service = currentSubmodule ? git.forSubmodule(currentSubmodule) : git;
+            const diffRequest = {
+                path: currentSubmodule ? currentFile.path.slice(currentSubmodule.length + 1) : currentFile.path,
                 staged: currentGroup === 'staged',
-                outputPath,
                 status: currentFile.status,
-            });
-            setExportStatus(`Exported to ${outputPath}`);
-            setTimeout(() => setExportStatus(''), 2000);
+                submoduleDiff,
+                wordDiff: wordDiffExport,
+                diffOptions,
+                ...(currentGroup === 'compare' && compareRange && { range: compareRange }),
+            };
+
+            // 直接覆蓋匯出目錄中的 diff.txt（簡單的 TUI 工具，不另外提示）
+            const output: OutputSink = copy ? { kind: 'clipboard' } : { kind: 'file', path: `${config.exportDir}/diff.txt` };
+            await deliverExport(output, await service.getSingleDiff(diffRequest), `diff of ${currentFile.path}`);
         } catch (error) {
-            setExportStatus(`Export failed: ${error}`);
+            setExportStatus(`✗ Export failed: ${error}`);
             setTimeout(() => setExportStatus(''), 3000);
         }
     };
 
-    // 匯出多檔合併 diff（現在接受參數）
-    const handleExportMultiple = async (outputPath: string) => {
-        if (selectedPaths.size === 0) {
+    // 匯出多檔合併 diff（現在接受參數；copy: 複製到剪貼簿而不寫入檔案）
+    const handleExportMultiple = async (outputPath: string, mode: DiffExportMode, format: ExportFormat, copy = false) => {
+        if (selectedPaths.size === 0 && hunkSelections.size === 0) {
             setExportStatus('No files selected');
             setTimeout(() => setExportStatus(''), 2000);
             return;
         }
 
         try {
+            // 整個檔案的勾選優先；否則只匯出選取的 hunk
             const filesToExport = allItems
-                .filter((item): item is Extract<ListItem, { type: 'file' }> =>
-                    item.type === 'file' && selectedPaths.has(item.file.path)
+                .filter((item): item is FileListItem =>
+                    item.type === 'file' &&
+                    (selectedPaths.has(item.file.path) || hunkSelections.has(getHunkKey(item.group, item.file.path)))
                 )
-                .map(item => ({
-                    path: item.file.path,
-                    staged: item.group === 'staged',
-                    status: item.file.status,
-                }));
+                .map(item => {
+                    const target = toDiffTarget(item);
+                    const hunks = hunkSelections.get(getHunkKey(item.group, item.file.path));
+                    if (hunks && !selectedPaths.has(item.file.path)) {
+                        target.hunks = [...hunks].sort((a, b) => a - b);
+                    }
+                    return target;
+                });
 
-            const path = await import('path');
-            const fs = await import('fs');
-            const fsPromises = await import('fs/promises');
-            
-            // 解析路徑
-            let resolvedPath = path.isAbsolute(outputPath) 
-                ? outputPath 
-                : path.resolve(process.cwd(), outputPath);
-            
-            // ✅ 檢查是否為目錄
-            try {
-                const stat = fs.statSync(resolvedPath);
-                if (stat.isDirectory()) {
-                    // ✅ 如果是目錄，使用時間戳檔案名
-                    resolvedPath = path.join(resolvedPath, getTimestampedFileName('diff'));
-                }
-            } catch {
-                // 檔案不存在，檢查是否沒有副檔名
-                if (path.extname(resolvedPath) === '') {
-                    // ✅ 可能是目錄，使用時間戳檔案名
-                    resolvedPath = path.join(resolvedPath, getTimestampedFileName('diff'));
-                }
-            }
-            
-            // 確保目錄存在
-            const dir = path.dirname(resolvedPath);
-            await fsPromises.mkdir(dir, { recursive: true });
+            const output = await resolveOutput(copy, outputPath, 'diff', formatExtension(format));
+            const label = `${filesToExport.length} file(s)`;
 
-            await git.exportMultipleDiffs({
+            const exportOptions = {
                 paths: filesToExport,
-                outputPath: resolvedPath,
-            });
+                submoduleDiff,
+                wordDiff: wordDiffExport,
+                diffOptions,
+                format,
+                withContents: mode === 'diff-with-files',
+                ...(appMode === 'compare' && compareRange && { range: compareRange }),
+            };
+            if (mode === 'diff-with-files') {
+                setExportStatus('Reading file contents...');
+            }
 
-            setExportStatus(`✓ Exported to ${path.basename(resolvedPath)}`);
-            setTimeout(() => setExportStatus(''), 3000);
+            // 超過預算時自動縮減：減少 context 行數，再捨棄最大的檔案
+            if (tokenBudget !== null && budgetPolicy === 'trim') {
+                const renderDiffs = (paths: DiffTarget[], options: DiffOptions) => git.getDiffExport({
+                    ...exportOptions,
+                    paths,
+                    diffOptions: options,
+                });
+
+                setExportStatus('Fitting export to token budget...');
+                const fit = await fitToBudget({
+                    items: filesToExport,
+                    budget: tokenBudget,
+                    tokenizer,
+                    contextLines: diffOptions.contextLines,
+                    // 只選了部分 hunk 的檔案維持原本的 context 行數，否則 hunk 編號會改變
+                    render: async (paths, contextLines) => {
+                        const full = paths.filter(p => !p.hunks);
+                        const partial = paths.filter(p => p.hunks);
+                        const parts: string[] = [];
+                        if (full.length > 0) parts.push(await renderDiffs(full, { ...diffOptions, contextLines }));
+                        if (partial.length > 0) parts.push(await renderDiffs(partial, diffOptions));
+                        return parts.filter(Boolean).join('\n\n');
+                    },
+                });
+                const notes = [`~${formatTokenCount(fit.tokens)} tokens`];
+                if (fit.contextLines !== diffOptions.contextLines) notes.push(`-U${fit.contextLines}`);
+                if (fit.dropped.length > 0) notes.push(`dropped: ${fit.dropped.map(p => p.path).join(', ')}`);
+                await deliverExport(output, fit.content, `${filesToExport.length - fit.dropped.length} file(s)`, notes);
+                return;
+            }
+
+            await deliverExport(output, await git.getDiffExport(exportOptions), label);
         } catch (error) {
             setExportStatus(`✗ Export failed: ${error}`);
             setTimeout(() => setExportStatus(''), 3000);
         }
     };
 
-    // 匯出檔案概覽（支援自訂路徑）
-    const handleExportOverview = async (outputPath: string) => {
-        try {
-            const path = await import('path');
-            const fs = await import('fs');
-            const fsPromises = await import('fs/promises');
-            
-            // 解析路徑
-            let resolvedPath = path.isAbsolute(outputPath) 
-                ? outputPath 
-                : path.resolve(process.cwd(), outputPath);
-            
-            // 檢查是否為目錄
-            try {
-                const stat = fs.statSync(resolvedPath);
-                if (stat.isDirectory()) {
-                    resolvedPath = path.join(resolvedPath, getTimestampedFileName('files_overview'));
-                }
-            } catch {
-                if (path.extname(resolvedPath) === '') {
-                    resolvedPath = path.join(resolvedPath, getTimestampedFileName('files_overview'));
-                }
-            }
-            
-            // 確保目錄存在
-            const dir = path.dirname(resolvedPath);
-            await fsPromises.mkdir(dir, { recursive: true });
-            
-            // 顯示處理中狀態
-            setExportStatus('Generating overview...');
-            
-            // 生成概覽內容
-            const overview = await generateFileOverview();
-            
-            // 寫入檔案
-            await fsPromises.writeFile(resolvedPath, overview, 'utf8');
+    // 匯出 stash 的 patch
+    const handleExportStash = async (outputPath: string, copy = false) => {
+        if (!currentStash) {
+            setExportStatus('No stash selected');
+            setTimeout(() => setExportStatus(''), 2000);
+            return;
+        }
 
-            setExportStatus(`✓ Overview exported to ${path.basename(resolvedPath)}`);
-            setTimeout(() => setExportStatus(''), 3000);
+        try {
+            const output = await resolveOutput(copy, outputPath, 'stash');
+            await deliverExport(output, await git.getStashPatch({ index: currentStash.index, diffOptions }), `stash@{${currentStash.index}}`);
+        } catch (error) {
+            setExportStatus(`✗ Export failed: ${error}`);
+            setTimeout(() => setExportStatus(''), 3000);
+        }
+    };
+
+    // 匯出衝突 bundle（已勾選的衝突檔案，沒有勾選時使用當前檔案）
+    const handleExportConflicts = async (outputPath: string, copy = false) => {
+        const selected = conflictedFiles.filter(f => selectedPaths.has(f.path)).map(f => f.path);
+        const targets = selected.length > 0
+            ? selected
+            : currentGroup === 'conflicts' && currentFile ? [currentFile.path] : [];
+
+        if (targets.length === 0) {
+            setExportStatus('No conflicted files selected');
+            setTimeout(() => setExportStatus(''), 2000);
+            return;
+        }
+
+        try {
+            const output = await resolveOutput(copy, outputPath, 'conflicts');
+            await deliverExport(output, await git.getConflictBundle({ paths: targets }), `${targets.length} conflict(s)`);
+        } catch (error) {
+            setExportStatus(`✗ Export failed: ${error}`);
+            setTimeout(() => setExportStatus(''), 3000);
+        }
+    };
+
+    // 開啟 base ref 選擇器
+    const openRefPicker = async () => {
+        try {
+            setRefs(await git.getRefs());
+            setRefIndex(0);
+            setCompareTarget(compareRange?.target ?? 'HEAD');
+            setPathInput('');
+            setCursorPosition(0);
+            setInputMode('pick-base-ref');
+        } catch (error) {
+            setExportStatus(`✗ ${error}`);
+            setTimeout(() => setExportStatus(''), 3000);
+        }
+    };
+
+    // 切換到與 base ref 比較的模式
+    const startCompare = async (base: string, target: CompareRange['target']) => {
+        try {
+            const range = await git.getCompareRange(base, target);
+            const files = await git.getRangeFiles(range);
+            setCompareRange(range);
+            setCompareFiles(files);
+            setSelectedPaths(new Set());
+            setAppMode('compare');
+            setSelectedIndex(0);
+            setListScrollTop(0);
+        } catch (error) {
+            setExportStatus(`✗ ${error}`);
+            setTimeout(() => setExportStatus(''), 3000);
+        }
+    };
+
+    // 重新載入清單與預覽（在其他地方執行 git 操作之後）
+    const refresh = async () => {
+        setReloadCount(prev => prev + 1);
+        try {
+            if (appMode === 'compare' && compareRange) {
+                setCompareFiles(await git.getRangeFiles(compareRange));
+            }
+            setExportStatus('Refreshed');
+        } catch (error) {
+            setExportStatus(`✗ ${error}`);
+        }
+        setTimeout(() => setExportStatus(''), 2000);
+    };
+
+    // 匯出 commit（e: 當前 commit，E: 已勾選的 commit）
+    const handleExportCommits = async (outputPath: string, targets: CommitItem[], copy = false) => {
+        if (targets.length === 0) {
+            setExportStatus('No commits selected');
+            setTimeout(() => setExportStatus(''), 2000);
+            return;
+        }
+
+        try {
+            const output = await resolveOutput(copy, outputPath, 'diff');
+            await deliverExport(output, await git.getCommitsExport({ commits: targets, diffOptions }), `${targets.length} commit(s)`);
+        } catch (error) {
+            setExportStatus(`✗ Export failed: ${error}`);
+            setTimeout(() => setExportStatus(''), 3000);
+        }
+    };
+
+    // 匯出檔案概覽（支援自訂路徑）
+    const handleExportOverview = async (outputPath: string, format: ExportFormat, copy = false) => {
+        try {
+            // 顯示處理中狀態
+            setExportStatus('Generating overview...');
+            
+            // 生成概覽內容
+            const overview = await generateFileOverview(git, format, { filter: config });
+
+            const output = await resolveOutput(copy, outputPath, 'files_overview', formatExtension(format));
+            await deliverExport(output, overview, 'overview');
         } catch (error) {
             setExportStatus(`✗ Export failed: ${error}`);
             setTimeout(() => setExportStatus(''), 3000);
@@ -744,17 +1009,15 @@ export const App = () => {
     };
 
     // 匯出合併的程式碼庫
-    const handleExportCodeDump = async (outputPath: string, mode: DumpMode) => {
+    const handleExportCodeDump = async (outputPath: string, mode: DumpMode, format: ExportFormat, copy = false) => {
         try {
             const path = await import('path');
-            const fs = await import('fs');
-            const fsPromises = await import('fs/promises');
             
             // ✅ 解析基礎路徑
             let basePath = '';
             if (outputPath.trim() === '') {
-                // 空路徑：使用當前目錄
-                basePath = process.cwd();
+                // 空路徑：使用設定的匯出目錄（預設為當前目錄）
+                basePath = config.exportDir;
             } else {
                 // 有輸入路徑
                 basePath = path.isAbsolute(outputPath) 
@@ -763,39 +1026,25 @@ export const App = () => {
             }
             
             // ✅ 建立帶時間戳的目錄（兩種模式都一樣，不再建立額外的 dump 子資料夾）
-            const timestampedDir = getTimestampedDirName('code_dump');
-            const resolvedPath = path.join(basePath, timestampedDir);
-            
-            // 確保目錄存在
-            await fsPromises.mkdir(resolvedPath, { recursive: true });
+            // 複製到剪貼簿時所有檔案合併為單一文件
+            const output: OutputSink = copy
+                ? { kind: 'clipboard' }
+                : { kind: 'directory', path: path.join(basePath, getTimestampedDirName('code_dump')) };
             
             // 顯示處理中狀態
             setExportStatus('Generating code dump...');
-            
-            // 生成合併檔案
-            const mergedFiles = await generateMergedCodebase(mode);
-            
-            // 寫入所有檔案
-            let count = 0;
-            for (const [fileName, content] of mergedFiles) {
-                const filePath = path.join(resolvedPath, fileName);
-                
-                // 確保子目錄存在（目錄結構模式需要）
-                const fileDir = path.dirname(filePath);
-                await fsPromises.mkdir(fileDir, { recursive: true });
-                
-                await fsPromises.writeFile(filePath, content, 'utf8');
-                count++;
+
+            const { files, oversized, result } = await exportCodeDump({ git, output, mode, format, filter: config, maxFileSize: config.maxFileSize });
+            const content = [...files.values()].join('\n');
+            if (output.kind === 'clipboard') {
+                await showExportResult(output, result, `${files.size} dump file(s)`, content);
+                return;
             }
             
-            // ✅ 生成摘要檔案（直接放在時間戳目錄的根目錄）
-            const summaryPath = path.join(resolvedPath, 'dump_summary.txt');
-            const summary = generateDumpSummary(mergedFiles, resolvedPath, mode);
-            await fsPromises.writeFile(summaryPath, summary, 'utf8');
-            
             // 顯示相對路徑
-            const displayPath = path.relative(process.cwd(), resolvedPath);
-            setExportStatus(`✓ Dumped ${count} files to ${displayPath}/`);
+            const displayPath = path.relative(process.cwd(), result.destination);
+            const skipped = oversized.length > 0 ? ` (${oversized.length} large file(s) skipped)` : '';
+            setExportStatus(`✓ Dumped ${files.size} files to ${displayPath}/${skipped}${getBudgetWarning(content)}`);
             setTimeout(() => setExportStatus(''), 3000);
         } catch (error) {
             setExportStatus(`✗ Export failed: ${error}`);
@@ -808,6 +1057,9 @@ export const App = () => {
     const adjustedRows = isWarp ? Math.max(10, (rows || 24) - 1) : (rows || 24);
     const mainAreaHeight = Math.max(3, adjustedRows - 8);
 
+    // 說明面板一次可顯示的行數（扣除面板的邊框、標題與提示）
+    const helpHeight = Math.max(3, adjustedRows - 12);
+
 
     // 當列表變化時，確保選中索引有效
     useEffect(() => {
@@ -822,24 +1074,67 @@ export const App = () => {
         }
     }, [allItems.length, selectedIndex, mainAreaHeight]);
 
-    // 切換檔案時重置 Diff Scroll
+    // 切換檔案時重置 Diff Scroll、焦點 hunk 與衝突預覽
     useEffect(() => {
         setDiffScrollTop(0);
+        setFocusedHunk(0);
+        setConflictView('diff');
     }, [selectedIndex]);
 
     // 載入 Diff
     useEffect(() => {
         const fetchDiff = async () => {
+            if (currentCommit) {
+                setDiffContent(await git.getCommitDiff(currentCommit.hash, diffOptions));
+                return;
+            }
+
+            if (currentStash) {
+                // 先列出檔案清單，再接上 patch
+                const fileList = currentStash.files
+                    .map(f => `  ${f.status.padEnd(2)} ${f.path}`)
+                    .join('\n');
+                const patch = await git.getStashDiff(currentStash.index, diffOptions);
+                setDiffContent(`stash@{${currentStash.index}}: ${currentStash.message}\n\nFiles (${currentStash.files.length}):\n${fileList}\n\n${patch}`);
+                return;
+            }
+
             if (!currentFile || !currentGroup) {
                 setDiffContent('');
                 return;
             }
+
+            // 衝突檔案：顯示指定 stage 的內容
+            if (currentGroup === 'conflicts' && conflictView !== 'diff') {
+                const stage = conflictView === 'base' ? 1 : conflictView === 'ours' ? 2 : 3;
+                const content = await git.getConflictStage(currentFile.path, stage);
+                setDiffContent(content ?? `(No ${conflictView} version: file not present in stage :${stage}:)`);
+                return;
+            }
             
             try {
-                const txt = await git.getDiff({
+                const service = currentSubmodule ? git.forSubmodule(currentSubmodule) : git;
+                const relativePath = currentSubmodule ? currentFile.path.slice(currentSubmodule.length + 1) : currentFile.path;
+
+                // Binary 檔案：顯示資訊卡，不顯示 diff
+                const binary = await service.getBinaryInfo({
+                    staged: currentGroup === 'staged',
+                    path: relativePath,
+                    status: currentFile.status,
+                    ...(currentGroup === 'compare' && compareRange && { range: compareRange }),
+                });
+                if (binary) {
+                    setDiffContent(formatBinaryCard(currentFile.path, binary));
+                    return;
+                }
+
+                const txt = await service.getDiff({
                     staged: currentGroup === 'staged',
-                    path: currentFile.path,
+                    path: relativePath,
                     status: currentFile.status,
+                    submoduleDiff,
+                    diffOptions,
+                    ...(currentGroup === 'compare' && compareRange && { range: compareRange }),
                 });
                 setDiffContent(txt);
             } catch (e) {
@@ -848,135 +1143,133 @@ export const App = () => {
         };
         
         fetchDiff();
-    }, [currentFile, currentGroup]);
+    }, [currentFile, currentGroup, currentSubmodule, currentCommit, currentStash, compareRange, conflictView, submoduleDiff, diffOptions, reloadCount]);
 
-    // 鍵盤操作
-    useInput((input, key) => {
-        // ============ 路徑輸入模式 ============
-        if (inputMode === 'export-path' || inputMode === 'export-overview' || inputMode === 'export-code-dump') {
-            // ESC: 取消輸入
-            if (key.escape) {
-                setInputMode('normal');
-                setPathInput(''); // ✅ 重置為空
-                setCursorPosition(0);
-                return;
-            }
+    // Diff 選項改變後 hunk 的切分不同，已選的 hunk 索引不再有效
+    useEffect(() => {
+        setHunkSelections(new Map());
+        setFocusedHunk(0);
+    }, [diffOptions]);
+
+    // 執行瀏覽模式的動作（按鍵與命令面板共用）
+    // 開啟「匯出選取項目」的路徑輸入；沒有可匯出的項目時只顯示提示
+    const openExportSelected = ({ format, mode = 'diff' }: { format?: ExportFormat; mode?: DiffExportMode } = {}) => {
+        if (appMode === 'stash' && !currentStash) {
+            setExportStatus('No stash selected');
+            setTimeout(() => setExportStatus(''), 2000);
+            return;
+        }
 
-            // ✅ Tab: 切換 dump 模式（僅在 code-dump 模式）
-            if (key.tab && inputMode === 'export-code-dump') {
-                setDumpMode(prev => prev === 'flat' ? 'tree' : 'flat');
-                return;
-            }
+        if (appMode === 'log' && selectedCommits.size === 0) {
+            setExportStatus('No commits selected');
+            setTimeout(() => setExportStatus(''), 2000);
+            return;
+        }
 
-            // Enter: 確認匯出
-            if (key.return) {
-                setInputMode('normal');
-                
-                if (inputMode === 'export-path') {
-                    // 匯出 diff
-                    const finalPath = pathInput.trim() === '' 
-                        ? `./${getTimestampedFileName('diff')}` 
-                        : pathInput;
-                    handleExportMultiple(finalPath);
-                } else if (inputMode === 'export-overview') {
-                    // 匯出概覽
-                    const finalPath = pathInput.trim() === '' 
-                        ? `./${getTimestampedFileName('files_overview')}` 
-                        : pathInput;
-                    handleExportOverview(finalPath);
-                } else if (inputMode === 'export-code-dump') {
-                    // 匯出程式碼 dump
-                    const finalPath = pathInput.trim();
-                    handleExportCodeDump(finalPath, dumpMode);
-                }
-                
-                setPathInput(''); // ✅ 重置為空
-                setCursorPosition(0);
-                return;
-            }
+        if ((appMode === 'changes' || appMode === 'compare') && selectedPaths.size === 0 && hunkSelections.size === 0) {
+            setExportStatus('No files selected');
+            setTimeout(() => setExportStatus(''), 2000);
+            return;
+        }
+        
+        // 確定會開啟路徑輸入後才套用選項，中止時不改變目前的格式
+        if (format) setExportFormat(format);
+        setInputMode('export-path');
+        setDiffExportMode(mode);
+        setPathInput(''); // ✅ 空白開始
+        setCursorPosition(0); // ✅ 游標在開頭
+    };
 
-            // Backspace: 刪除字元
-            if (key.backspace || key.delete) {
-                if (cursorPosition > 0) {
-                    const newPath = 
-                        pathInput.slice(0, cursorPosition - 1) + 
-                        pathInput.slice(cursorPosition);
-                    setPathInput(newPath);
-                    setCursorPosition(cursorPosition - 1);
-                }
-                return;
-            }
+    const runAction = (action: ActionId) => {
+        // Tab: 切換焦點（檔案列表 ↔ 預覽）
+        if (action === 'switchFocus') {
+            setFocusPane(prev => prev === 'list' ? 'diff' : 'list');
+            return;
+        }
 
-            // Ctrl+V: 貼上剪貼簿
-            if (key.ctrl && input === 'v') {
-                (async () => {
-                    try {
-                        const clipboardContent = await getClipboardContent();
-                        // ✅ 移除換行符，確保單行
-                        const sanitized = clipboardContent.replace(/[\r\n]+/g, '');
-                        const newPath =
-                            pathInput.slice(0, cursorPosition) +
-                            sanitized +
-                            pathInput.slice(cursorPosition);
-                        setPathInput(newPath);
-                        setCursorPosition(cursorPosition + sanitized.length);
-                    } catch (error) {
-                        setExportStatus('✗ Clipboard paste failed');
-                        setTimeout(() => setExportStatus(''), 2000);
-                    }
-                })();
+        // ============ 預覽焦點：以 hunk 為單位移動與勾選 ============
+        if (focusPane === 'diff' && (action === 'up' || action === 'down' || action === 'toggleSelect')) {
+            // 沒有 hunk 時（commit、stash、binary 等）上下鍵逐行捲動
+            if (hunkLines.length === 0) {
+                if (action === 'up') setDiffScrollTop(prev => Math.max(0, prev - 1));
+                if (action === 'down') setDiffScrollTop(prev => Math.min(prev + 1, Math.max(0, previewLength - mainAreaHeight)));
                 return;
             }
 
-            // Ctrl+U: 清空輸入
-            if (key.ctrl && input === 'u') {
-                setPathInput('');
-                setCursorPosition(0);
-                return;
-            }
+            const current = Math.min(focusedHunk, hunkLines.length - 1);
 
-            // Left Arrow: 移動游標
-            if (key.leftArrow) {
-                setCursorPosition(Math.max(0, cursorPosition - 1));
+            if (action === 'up' || action === 'down') {
+                const next = action === 'up' ? Math.max(0, current - 1) : Math.min(current + 1, hunkLines.length - 1);
+                setFocusedHunk(next);
+                setDiffScrollTop(Math.min(hunkLines[next]!, Math.max(0, previewLength - mainAreaHeight)));
                 return;
             }
 
-            // Right Arrow: 移動游標
-            if (key.rightArrow) {
-                setCursorPosition(Math.min(pathInput.length, cursorPosition + 1));
-                return;
-            }
+            // Space: 勾選/取消焦點 hunk（部分選取取代整個檔案的勾選）
+            if (currentFile && currentHunkKey) {
+                const hunks = new Set(currentHunks);
+                if (hunks.has(current)) {
+                    hunks.delete(current);
+                } else {
+                    hunks.add(current);
+                }
 
-            // Home: 移到開頭
-            if (key.home) {
-                setCursorPosition(0);
-                return;
-            }
+                const newSelections = new Map(hunkSelections);
+                if (hunks.size > 0) {
+                    newSelections.set(currentHunkKey, hunks);
+                } else {
+                    newSelections.delete(currentHunkKey);
+                }
+                setHunkSelections(newSelections);
 
-            // End: 移到結尾
-            if (key.end) {
-                setCursorPosition(pathInput.length);
-                return;
+                if (selectedPaths.has(currentFile.path)) {
+                    const newSet = new Set(selectedPaths);
+                    newSet.delete(currentFile.path);
+                    setSelectedPaths(newSet);
+                }
             }
+            return;
+        }
 
-            // 一般字元輸入
-            if (input && !key.ctrl && !key.meta) {
-                const newPath = 
-                    pathInput.slice(0, cursorPosition) + 
-                    input + 
-                    pathInput.slice(cursorPosition);
-                setPathInput(newPath);
-                setCursorPosition(cursorPosition + input.length);
-                return;
+        // Home / End: 預覽焦點時捲到開頭 / 結尾，否則移到列表的第一項 / 最後一項
+        if ((action === 'home' || action === 'end') && focusPane === 'diff') {
+            const top = action === 'home' ? 0 : Math.max(0, previewLength - mainAreaHeight);
+            setDiffScrollTop(top);
+            if (hunkLines.length > 0) {
+                setFocusedHunk(action === 'home' ? 0 : hunkLines.length - 1);
             }
+            return;
+        }
+        if (action === 'home' || action === 'end') {
+            const last = Math.max(0, allItems.length - 1);
+            setSelectedIndex(action === 'home' ? 0 : last);
+            setListScrollTop(action === 'home' ? 0 : Math.max(0, last - mainAreaHeight + 1));
+            return;
+        }
 
-            return; // 在輸入模式下，不處理其他按鍵
+        // '?' 顯示所有動作與按鍵
+        if (action === 'help') {
+            setHelpScrollTop(0);
+            setInputMode('help');
+            return;
+        }
+
+        // ':' / Ctrl+P 開啟命令面板
+        if (action === 'commandPalette') {
+            setPathInput('');
+            setPaletteIndex(0);
+            setInputMode('command-palette');
+            return;
+        }
+
+        // 'r' 重新整理
+        if (action === 'refresh') {
+            refresh();
+            return;
         }
 
-        // ============ 正常瀏覽模式 ============
-        
         // 退出
-        if (input === 'q') {
+        if (action === 'quit') {
             if (process.stdin.isTTY && process.stdin.setRawMode) {
                 process.stdin.setRawMode(false);
             }
@@ -984,62 +1277,160 @@ export const App = () => {
             return;
         }
 
-        // '/' 切換顯示模式
-        if (input === '/') {
-            setViewMode(prev => prev === 'flat' ? 'tree' : 'flat');
+        // 'l' 切換 commit 紀錄模式
+        if (action === 'logMode') {
+            setAppMode(prev => prev === 'log' ? 'changes' : 'log');
             setSelectedIndex(0);
             setListScrollTop(0);
             return;
         }
 
-        // 上移
-        if (key.upArrow) {
-            setSelectedIndex(prev => {
-                const nextIndex = Math.max(prev - 1, 0);
-                // 自動捲動
-                if (nextIndex < listScrollTop) {
-                    setListScrollTop(nextIndex);
-                }
-                return nextIndex;
-            });
+        // 'c' 切換衝突檔案的預覽（diff → base → ours → theirs）
+        if (action === 'cycleConflictView' && currentGroup === 'conflicts') {
+            setConflictView(prev => CONFLICT_VIEWS[(CONFLICT_VIEWS.indexOf(prev) + 1) % CONFLICT_VIEWS.length]!);
+            setDiffScrollTop(0);
+            return;
         }
 
-        // 下移
-        if (key.downArrow) {
-            setSelectedIndex(prev => {
-                const nextIndex = Math.min(prev + 1, allItems.length - 1);
-                // 自動捲動
-                if (nextIndex >= listScrollTop + mainAreaHeight) {
-                    setListScrollTop(nextIndex - mainAreaHeight + 1);
-                }
-                return nextIndex;
-            });
+        // 'C' 匯出衝突 bundle
+        if (action === 'exportConflicts' && appMode === 'changes') {
+            if (conflictedFiles.length === 0) {
+                setExportStatus('No merge conflicts');
+                setTimeout(() => setExportStatus(''), 2000);
+                return;
+            }
+
+            setInputMode('export-conflict');
+            setPathInput('');
+            setCursorPosition(0);
+            return;
         }
 
-        // Diff 捲動 (PageUp/PageDown)
-        if (key.pageDown) {
-            setDiffScrollTop(prev => {
-                const diffLines = diffContent.split('\n');
-                const maxScroll = Math.max(0, diffLines.length - mainAreaHeight);
-                return Math.min(prev + SCROLL_LINES, maxScroll);
-            });
+        // 'v' 切換 diff 排版（unified / 左右並排）
+        if (action === 'toggleLayout') {
+            setDiffLayout(prev => prev === 'unified' ? 'split' : 'unified');
+            setDiffScrollTop(0);
+            setFocusedHunk(0);
+            return;
         }
-        if (key.pageUp) {
-            setDiffScrollTop(prev => Math.max(0, prev - SCROLL_LINES));
+
+        // 'm' 切換 submodule 的 diff 顯示方式（內部檔案 diff / commit 指標）
+        if (action === 'toggleSubmoduleDiff') {
+            setSubmoduleDiff(prev => !prev);
+            setExportStatus(`Submodule diff: ${submoduleDiff ? 'commit pointer' : 'file diffs'}`);
+            setTimeout(() => setExportStatus(''), 2000);
+            return;
         }
 
-        // Space: 勾選檔案或分組全選
-        if (input === ' ') {
-            const currentItem = allItems[selectedIndex];
-            
-            if (currentItem?.type === 'group') {
-                // 在分組標題上：全選/取消該分組
+        // 'o' 開啟 diff 選項面板
+        if (action === 'diffOptions') {
+            setInputMode('diff-options');
+            return;
+        }
+
+        // 'w' 切換匯出 diff 的格式（一般 / word diff）
+        if (action === 'toggleWordDiff') {
+            setWordDiffExport(prev => !prev);
+            setExportStatus(`Export format: ${wordDiffExport ? 'unified diff' : 'word diff [-old-]{+new+}'}`);
+            setTimeout(() => setExportStatus(''), 2000);
+            return;
+        }
+
+        // 's' 切換 stash 列表模式
+        if (action === 'stashMode') {
+            setAppMode(prev => prev === 'stash' ? 'changes' : 'stash');
+            setSelectedIndex(0);
+            setListScrollTop(0);
+            return;
+        }
+
+        // 'b' 選擇比較基準 ref
+        if (action === 'compareBase') {
+            openRefPicker();
+            return;
+        }
+
+        // 'B' 離開比較模式
+        if (action === 'endCompare' && appMode === 'compare') {
+            setAppMode('changes');
+            setCompareRange(null);
+            setCompareFiles([]);
+            setSelectedPaths(new Set());
+            setHunkSelections(new Map());
+            setSelectedIndex(0);
+            setListScrollTop(0);
+            return;
+        }
+
+        // '/' 切換顯示模式
+        if (action === 'toggleViewMode') {
+            setViewMode(prev => prev === 'flat' ? 'tree' : 'flat');
+            setSelectedIndex(0);
+            setListScrollTop(0);
+            return;
+        }
+
+        // 上移
+        if (action === 'up') {
+            setSelectedIndex(prev => {
+                const nextIndex = Math.max(prev - 1, 0);
+                // 自動捲動
+                if (nextIndex < listScrollTop) {
+                    setListScrollTop(nextIndex);
+                }
+                return nextIndex;
+            });
+        }
+
+        // 下移
+        if (action === 'down') {
+            setSelectedIndex(prev => {
+                const nextIndex = Math.min(prev + 1, allItems.length - 1);
+                // 自動捲動
+                if (nextIndex >= listScrollTop + mainAreaHeight) {
+                    setListScrollTop(nextIndex - mainAreaHeight + 1);
+                }
+                return nextIndex;
+            });
+        }
+
+        // Diff 捲動 (PageUp/PageDown)
+        if (action === 'pageDown') {
+            setDiffScrollTop(prev => {
+                const maxScroll = Math.max(0, previewLength - mainAreaHeight);
+                return Math.min(prev + SCROLL_LINES, maxScroll);
+            });
+        }
+        if (action === 'pageUp') {
+            setDiffScrollTop(prev => Math.max(0, prev - SCROLL_LINES));
+        }
+
+        // Space: 勾選檔案或分組全選
+        if (action === 'toggleSelect') {
+            const currentItem = allItems[selectedIndex];
+            
+            if (currentItem?.type === 'commit') {
+                // 在 commit 上：切換單個 commit 選擇
+                const newSet = new Set(selectedCommits);
+                const hash = currentItem.commit.hash;
+                if (newSet.has(hash)) {
+                    newSet.delete(hash);
+                } else {
+                    newSet.add(hash);
+                }
+                setSelectedCommits(newSet);
+            } else if (currentItem?.type === 'group') {
+                // 在分組標題上：全選/取消該分組
                 const newSet = new Set(selectedPaths);
                 
                 // 找出該分組的所有檔案
-                const groupLabel = currentItem.label;
-                const isStaged = groupLabel === 'Staged Changes';
-                const groupFiles = (isStaged ? stagedFiles : unstagedFiles);
+                const filesByGroup: Record<FileGroup, GitChange[]> = {
+                    conflicts: conflictedFiles,
+                    unstaged: unstagedFiles,
+                    staged: stagedFiles,
+                    compare: compareFiles,
+                };
+                const groupFiles = filesByGroup[currentItem.group];
                 
                 // 檢查是否已全選
                 const allSelected = groupFiles.every(f => newSet.has(f.path));
@@ -1054,129 +1445,746 @@ export const App = () => {
                 
                 setSelectedPaths(newSet);
             } else if (currentItem?.type === 'file') {
-                // 在檔案上：切換單個檔案選擇
+                // 在檔案上：切換單個檔案選擇（同時清除該檔案的部分選取）
                 const newSet = new Set(selectedPaths);
                 const path = currentItem.file.path;
-                if (newSet.has(path)) {
+                const hunkKey = getHunkKey(currentItem.group, path);
+                if (newSet.has(path) || hunkSelections.has(hunkKey)) {
                     newSet.delete(path);
                 } else {
                     newSet.add(path);
                 }
                 setSelectedPaths(newSet);
+
+                if (hunkSelections.has(hunkKey)) {
+                    const newSelections = new Map(hunkSelections);
+                    newSelections.delete(hunkKey);
+                    setHunkSelections(newSelections);
+                }
+            }
+        }
+
+        // Enter: 在樹狀模式下展開/收合目錄（或有內部變更的 submodule）
+        if (action === 'toggleDirectory' && viewMode === 'tree') {
+            const currentItem = allItems[selectedIndex];
+            const node = currentItem?.type === 'directory' || currentItem?.type === 'file' ? currentItem.node : undefined;
+            if (node?.children) {
+                const dirPath = node.path;
+                const newCollapsed = new Set(collapsedDirs);
+                if (newCollapsed.has(dirPath)) {
+                    newCollapsed.delete(dirPath);
+                } else {
+                    newCollapsed.add(dirPath);
+                }
+                setCollapsedDirs(newCollapsed);
+            }
+        }
+
+        // 'a': 智能全選
+        if (action === 'selectAll' && appMode === 'log') {
+            const allSelected = commits.every(c => selectedCommits.has(c.hash));
+            setSelectedCommits(allSelected ? new Set() : new Set(commits.map(c => c.hash)));
+            return;
+        }
+
+        if (action === 'selectAll') {
+            const newSet = new Set(selectedPaths);
+            
+            // 如果焦點在某個分組內，只全選該分組
+            if (currentItem?.type === 'file') {
+                const targetGroup = currentItem.group;
+                const groupFiles = allItems
+                    .filter((item): item is Extract<ListItem, { type: 'file' }> => 
+                        item.type === 'file' && item.group === targetGroup
+                    )
+                    .map(item => item.file);
+                
+                const allSelected = groupFiles.every(f => newSet.has(f.path));
+                if (allSelected) {
+                    groupFiles.forEach(f => newSet.delete(f.path));
+                } else {
+                    groupFiles.forEach(f => newSet.add(f.path));
+                }
+            } else {
+                // 在分組標題上，全選所有檔案
+                const allFiles = allItems
+                    .filter((item): item is Extract<ListItem, { type: 'file' }> => 
+                        item.type === 'file'
+                    )
+                    .map(item => item.file);
+                
+                const allSelected = allFiles.every(f => newSet.has(f.path));
+                if (allSelected) {
+                    allFiles.forEach(f => newSet.delete(f.path));
+                } else {
+                    allFiles.forEach(f => newSet.add(f.path));
+                }
+            }
+            
+            setSelectedPaths(newSet);
+        }
+
+        // 'E' (Shift+e): 進入路徑輸入模式
+        if (action === 'exportSelected') {
+            openExportSelected();
+            return;
+        }
+
+        // 'f' (小寫): 快速匯出檔案概覽到匯出目錄（預設為當前目錄）
+        if (action === 'exportOverview') {
+            handleExportOverview(`${config.exportDir}/${getTimestampedFileName('files_overview', formatExtension(exportFormat))}`, exportFormat);
+            return;
+        }
+
+        // 'F' (大寫): 匯出檔案概覽並選擇路徑
+        if (action === 'exportOverviewTo') {
+            setInputMode('export-overview');
+            setPathInput('');
+            setCursorPosition(0);
+            return;
+        }
+
+        // 'D': 匯出程式碼 dump
+        if (action === 'exportCodeDump') {
+            setInputMode('export-code-dump');
+            setDumpMode(config.dumpMode); // ✅ 預設為設定檔的模式（未設定時為目錄結構模式）
+            setPathInput('');
+            setCursorPosition(0);
+            return;
+        }
+
+        // 'e': 匯出當前檔案 diff（保持原邏輯）
+        if (action === 'exportCurrent') {
+            if (appMode === 'log') {
+                handleExportCommits(`${config.exportDir}/diff.txt`, currentCommit ? [currentCommit] : []);
+            } else if (appMode === 'stash') {
+                handleExportStash(`${config.exportDir}/diff.txt`);
+            } else {
+                handleExportSingle();
+            }
+            return;
+        }
+
+        // 'y': 與 'e' 相同，但複製到剪貼簿
+        if (action === 'copyCurrent') {
+            if (appMode === 'log') {
+                handleExportCommits('', currentCommit ? [currentCommit] : [], true);
+            } else if (appMode === 'stash') {
+                handleExportStash('', true);
+            } else {
+                handleExportSingle(true);
+            }
+            return;
+        }
+    };
+
+    // 命令面板的命令：常用的組合操作，加上所有可從面板執行的動作
+    // 需要參數的命令先設定選項，再接到原本的路徑輸入
+    const paletteCommands: PaletteCommand[] = [
+        ...(appMode === 'changes' || appMode === 'compare' ? [
+            ...EXPORT_FORMATS.map((format): PaletteCommand => ({
+                id: `export-selected-${format}`,
+                title: `Export selected diffs as ${formatLabel(format)}`,
+                action: 'exportSelected',
+                prompt: true,
+                run: () => openExportSelected({ format }),
+            })),
+            {
+                id: 'export-selected-with-files',
+                title: 'Export selected diffs with full file contents',
+                action: 'exportSelected' as const,
+                prompt: true,
+                run: () => openExportSelected({ mode: 'diff-with-files' }),
+            },
+        ] : []),
+        ...EXPORT_FORMATS.map((format): PaletteCommand => ({
+            id: `export-overview-${format}`,
+            title: `Export overview as ${formatLabel(format)}`,
+            action: 'exportOverviewTo',
+            prompt: true,
+            run: () => {
+                setExportFormat(format);
+                runAction('exportOverviewTo');
+            },
+        })),
+        {
+            id: 'copy-overview',
+            title: 'Copy overview to clipboard',
+            run: () => handleExportOverview('', exportFormat, true),
+        },
+        ...(['flat', 'tree'] as const).map((mode): PaletteCommand => ({
+            id: `dump-${mode}`,
+            title: `Dump codebase (${mode})`,
+            action: 'exportCodeDump',
+            prompt: true,
+            run: () => {
+                runAction('exportCodeDump');
+                setDumpMode(mode);
+            },
+        })),
+        ...(appMode === 'changes' ? ([['staged', stagedFiles], ['unstaged', unstagedFiles]] as const).map(([group, files]): PaletteCommand => ({
+            id: `select-${group}`,
+            title: `Select all ${group}`,
+            run: () => setSelectedPaths(new Set([...selectedPaths, ...files.map(f => f.path)])),
+        })) : []),
+        {
+            id: 'clear-selection',
+            title: 'Clear selection',
+            run: () => {
+                setSelectedPaths(new Set());
+                setHunkSelections(new Map());
+                setSelectedCommits(new Set());
+            },
+        },
+        // 只在目前狀態下有作用的動作才列出；移動類的動作不列出
+        ...ACTIONS
+            .filter(action => action.category !== 'Navigation' && action.id !== 'commandPalette')
+            .filter(action => action.id !== 'endCompare' || appMode === 'compare')
+            .filter(action => action.id !== 'cycleConflictView' || currentGroup === 'conflicts')
+            .filter(action => action.id !== 'exportConflicts' || conflictedFiles.length > 0)
+            .map((action): PaletteCommand => ({
+                id: action.id,
+                title: action.description,
+                action: action.id,
+                prompt: action.id === 'exportSelected' || action.id === 'exportOverviewTo' || action.id === 'exportCodeDump' || action.id === 'exportConflicts',
+                run: () => runAction(action.id),
+            })),
+    ];
+    const paletteMatches = inputMode === 'command-palette' ? filterCommands(paletteCommands, pathInput) : [];
+
+    // 鍵盤操作
+    useInput((input, key) => {
+        // 瀏覽模式的按鍵對應的動作（面板與對話框中的按鍵固定，不經過 keymap）
+        const keyName = keyFromInput(input, key);
+        const action = keyName === null ? undefined : keymap.actionFor(keyName);
+
+        // ============ 說明面板 ============
+        if (inputMode === 'help') {
+            const maxScroll = Math.max(0, helpLines.length - helpHeight);
+            if (key.escape || key.return || action === 'help' || action === 'quit') {
+                setInputMode('normal');
+            } else if (key.upArrow) {
+                setHelpScrollTop(prev => Math.max(0, prev - 1));
+            } else if (key.downArrow) {
+                setHelpScrollTop(prev => Math.min(maxScroll, prev + 1));
+            } else if (key.pageUp) {
+                setHelpScrollTop(prev => Math.max(0, prev - helpHeight));
+            } else if (key.pageDown) {
+                setHelpScrollTop(prev => Math.min(maxScroll, prev + helpHeight));
+            }
+            return;
+        }
+
+        // ============ 命令面板 ============
+        if (inputMode === 'command-palette') {
+            if (key.escape) {
+                setInputMode('normal');
+                setPathInput('');
+                return;
+            }
+
+            // Enter: 關閉面板後執行（命令可能再開啟路徑輸入）
+            if (key.return) {
+                const match = paletteMatches[paletteIndex];
+                setInputMode('normal');
+                setPathInput('');
+                match?.command.run();
+                return;
+            }
+
+            if (key.upArrow || (key.ctrl && input === 'p')) {
+                setPaletteIndex(prev => Math.max(0, prev - 1));
+                return;
+            }
+
+            if (key.downArrow || (key.ctrl && input === 'n')) {
+                setPaletteIndex(prev => Math.min(Math.max(0, paletteMatches.length - 1), prev + 1));
+                return;
+            }
+
+            if (key.backspace || key.delete) {
+                setPathInput(prev => prev.slice(0, -1));
+                setPaletteIndex(0);
+                return;
+            }
+
+            if (key.ctrl && input === 'u') {
+                setPathInput('');
+                setPaletteIndex(0);
+                return;
+            }
+
+            // 一般字元輸入：過濾
+            if (input && !key.ctrl && !key.meta) {
+                setPathInput(prev => prev + input);
+                setPaletteIndex(0);
+            }
+            return;
+        }
+
+        // ============ Diff 選項面板 ============
+        if (inputMode === 'diff-options') {
+            if (key.escape || key.return || action === 'diffOptions') {
+                setInputMode('normal');
+                return;
+            }
+
+            if (key.upArrow) {
+                setDiffOptionIndex(prev => Math.max(0, prev - 1));
+                return;
+            }
+            if (key.downArrow) {
+                setDiffOptionIndex(prev => Math.min(DIFF_OPTION_ITEMS.length - 1, prev + 1));
+                return;
+            }
+
+            // ←/→ 調整數值或循環選項，Space 切換
+            const item = DIFF_OPTION_ITEMS[diffOptionIndex];
+            if (item && (key.leftArrow || key.rightArrow || input === ' ')) {
+                setDiffOptions(prev => adjustDiffOption(prev, item.key, key.leftArrow ? -1 : 1));
+                setDiffScrollTop(0);
+                return;
+            }
+
+            // 'r' 還原預設值（設定檔的 diffOptions，未設定時為 git 預設）
+            if (input === 'r') {
+                setDiffOptions(config.diffOptions);
+                setDiffScrollTop(0);
+                return;
+            }
+
+            return;
+        }
+
+        // ============ Base ref 選擇模式 ============
+        if (inputMode === 'pick-base-ref') {
+            if (key.escape) {
+                setInputMode('normal');
+                setPathInput('');
+                setCursorPosition(0);
+                return;
+            }
+
+            // Tab: 切換比較目標（HEAD / 工作區）
+            if (key.tab) {
+                setCompareTarget(prev => prev === 'HEAD' ? 'worktree' : 'HEAD');
+                return;
+            }
+
+            if (key.return) {
+                const ref = filteredRefs[refIndex];
+                if (ref) {
+                    setInputMode('normal');
+                    setPathInput('');
+                    setCursorPosition(0);
+                    startCompare(ref.name, compareTarget);
+                }
+                return;
+            }
+
+            if (key.upArrow) {
+                setRefIndex(prev => Math.max(0, prev - 1));
+                return;
+            }
+
+            if (key.downArrow) {
+                setRefIndex(prev => Math.min(Math.max(0, filteredRefs.length - 1), prev + 1));
+                return;
+            }
+
+            if (key.backspace || key.delete) {
+                setPathInput(prev => prev.slice(0, -1));
+                setRefIndex(0);
+                return;
+            }
+
+            if (key.ctrl && input === 'u') {
+                setPathInput('');
+                setRefIndex(0);
+                return;
+            }
+
+            // 一般字元輸入：過濾
+            if (input && !key.ctrl && !key.meta) {
+                setPathInput(prev => prev + input);
+                setRefIndex(0);
+            }
+            return;
+        }
+
+        // ============ 路徑輸入模式 ============
+        if (PATH_INPUT_MODES.includes(inputMode)) {
+            // ESC: 取消輸入
+            if (key.escape) {
+                setInputMode('normal');
+                setPathInput(''); // ✅ 重置為空
+                setCursorPosition(0);
+                return;
+            }
+
+            // ✅ Tab: 切換 dump 模式（僅在 code-dump 模式）
+            if (key.tab && inputMode === 'export-code-dump') {
+                setDumpMode(prev => prev === 'flat' ? 'tree' : 'flat');
+                return;
+            }
+
+            // Ctrl+F: 切換匯出格式
+            if (key.ctrl && input === 'f' && canChooseFormat) {
+                setExportFormat(prev => EXPORT_FORMATS[(EXPORT_FORMATS.indexOf(prev) + 1) % EXPORT_FORMATS.length]!);
+                return;
+            }
+
+            // Ctrl+B: 切換 token 預算
+            if (key.ctrl && input === 'b') {
+                setTokenBudget(prev => TOKEN_BUDGETS[(TOKEN_BUDGETS.indexOf(prev) + 1) % TOKEN_BUDGETS.length]!);
+                return;
+            }
+
+            // Ctrl+T: 超過預算時只警告或自動縮減（僅多檔 diff 支援縮減）
+            if (key.ctrl && input === 't' && canTrim) {
+                setBudgetPolicy(prev => prev === 'warn' ? 'trim' : 'warn');
+                return;
+            }
+
+            // Tab: 切換多檔 diff 的匯出內容（是否附上完整檔案）
+            if (key.tab && inputMode === 'export-path' && (appMode === 'changes' || appMode === 'compare')) {
+                setDiffExportMode(prev => prev === 'diff' ? 'diff-with-files' : 'diff');
+                return;
+            }
+
+            // Enter: 確認匯出；Ctrl+Y: 改為複製到剪貼簿（路徑會被忽略）
+            if (key.return || (key.ctrl && input === 'y')) {
+                const copy = !key.return;
+                setInputMode('normal');
+                
+                if (inputMode === 'export-path') {
+                    // 匯出 diff
+                    const finalPath = pathInput.trim() === '' 
+                        ? `${config.exportDir}/${getTimestampedFileName('diff', formatExtension(exportFormat))}` 
+                        : pathInput;
+                    if (appMode === 'stash') {
+                        handleExportStash(pathInput.trim() === '' ? `${config.exportDir}/${getTimestampedFileName('stash')}` : pathInput, copy);
+                    } else if (appMode === 'log') {
+                        // 保持 log 的順序（由新到舊）
+                        handleExportCommits(finalPath, commits.filter(c => selectedCommits.has(c.hash)), copy);
+                    } else {
+                        handleExportMultiple(finalPath, diffExportMode, exportFormat, copy);
+                    }
+                } else if (inputMode === 'export-overview') {
+                    // 匯出概覽
+                    const finalPath = pathInput.trim() === '' 
+                        ? `${config.exportDir}/${getTimestampedFileName('files_overview', formatExtension(exportFormat))}` 
+                        : pathInput;
+                    handleExportOverview(finalPath, exportFormat, copy);
+                } else if (inputMode === 'export-code-dump') {
+                    // 匯出程式碼 dump
+                    const finalPath = pathInput.trim();
+                    handleExportCodeDump(finalPath, dumpMode, exportFormat, copy);
+                } else if (inputMode === 'export-conflict') {
+                    // 匯出衝突 bundle
+                    const finalPath = pathInput.trim() === ''
+                        ? `${config.exportDir}/${getTimestampedFileName('conflicts')}`
+                        : pathInput;
+                    handleExportConflicts(finalPath, copy);
+                }
+                
+                setPathInput(''); // ✅ 重置為空
+                setCursorPosition(0);
+                return;
+            }
+
+            // Backspace: 刪除字元
+            if (key.backspace || key.delete) {
+                if (cursorPosition > 0) {
+                    const newPath = 
+                        pathInput.slice(0, cursorPosition - 1) + 
+                        pathInput.slice(cursorPosition);
+                    setPathInput(newPath);
+                    setCursorPosition(cursorPosition - 1);
+                }
+                return;
+            }
+
+            // Ctrl+V: 貼上剪貼簿
+            if (key.ctrl && input === 'v') {
+                (async () => {
+                    try {
+                        const clipboardContent = await getClipboardContent();
+                        // ✅ 移除換行符，確保單行
+                        const sanitized = clipboardContent.replace(/[\r\n]+/g, '');
+                        const newPath =
+                            pathInput.slice(0, cursorPosition) +
+                            sanitized +
+                            pathInput.slice(cursorPosition);
+                        setPathInput(newPath);
+                        setCursorPosition(cursorPosition + sanitized.length);
+                    } catch (error) {
+                        setExportStatus('✗ Clipboard paste failed');
+                        setTimeout(() => setExportStatus(''), 2000);
+                    }
+                })();
+                return;
             }
-        }
 
-        // Enter: 在樹狀模式下展開/收合目錄
-        if (key.return && viewMode === 'tree') {
-            const currentItem = allItems[selectedIndex];
-            if (currentItem?.type === 'directory') {
-                const dirPath = currentItem.node.path;
-                const newCollapsed = new Set(collapsedDirs);
-                if (newCollapsed.has(dirPath)) {
-                    newCollapsed.delete(dirPath);
-                } else {
-                    newCollapsed.add(dirPath);
-                }
-                setCollapsedDirs(newCollapsed);
+            // Ctrl+U: 清空輸入
+            if (key.ctrl && input === 'u') {
+                setPathInput('');
+                setCursorPosition(0);
+                return;
             }
-        }
 
-        // 'a': 智能全選
-        if (input === 'a') {
-            const newSet = new Set(selectedPaths);
-            
-            // 如果焦點在某個分組內，只全選該分組
-            if (currentItem?.type === 'file') {
-                const targetGroup = currentItem.group;
-                const groupFiles = allItems
-                    .filter((item): item is Extract<ListItem, { type: 'file' }> => 
-                        item.type === 'file' && item.group === targetGroup
-                    )
-                    .map(item => item.file);
-                
-                const allSelected = groupFiles.every(f => newSet.has(f.path));
-                if (allSelected) {
-                    groupFiles.forEach(f => newSet.delete(f.path));
-                } else {
-                    groupFiles.forEach(f => newSet.add(f.path));
-                }
-            } else {
-                // 在分組標題上，全選所有檔案
-                const allFiles = allItems
-                    .filter((item): item is Extract<ListItem, { type: 'file' }> => 
-                        item.type === 'file'
-                    )
-                    .map(item => item.file);
-                
-                const allSelected = allFiles.every(f => newSet.has(f.path));
-                if (allSelected) {
-                    allFiles.forEach(f => newSet.delete(f.path));
-                } else {
-                    allFiles.forEach(f => newSet.add(f.path));
-                }
+            // Left Arrow: 移動游標
+            if (key.leftArrow) {
+                setCursorPosition(Math.max(0, cursorPosition - 1));
+                return;
             }
-            
-            setSelectedPaths(newSet);
-        }
 
-        // 'E' (Shift+e): 進入路徑輸入模式
-        if (input === 'E') {
-            if (selectedPaths.size === 0) {
-                setExportStatus('No files selected');
-                setTimeout(() => setExportStatus(''), 2000);
+            // Right Arrow: 移動游標
+            if (key.rightArrow) {
+                setCursorPosition(Math.min(pathInput.length, cursorPosition + 1));
                 return;
             }
-            
-            setInputMode('export-path');
-            setPathInput(''); // ✅ 空白開始
-            setCursorPosition(0); // ✅ 游標在開頭
-            return;
-        }
 
-        // 'f' (小寫): 快速匯出檔案概覽到當前目錄
-        if (input === 'f') {
-            handleExportOverview(`./${getTimestampedFileName('files_overview')}`);
-            return;
-        }
+            // Home: 移到開頭
+            if (key.home) {
+                setCursorPosition(0);
+                return;
+            }
 
-        // 'F' (大寫): 匯出檔案概覽並選擇路徑
-        if (input === 'F') {
-            setInputMode('export-overview');
-            setPathInput('');
-            setCursorPosition(0);
-            return;
-        }
+            // End: 移到結尾
+            if (key.end) {
+                setCursorPosition(pathInput.length);
+                return;
+            }
 
-        // 'D': 匯出程式碼 dump
-        if (input === 'D') {
-            setInputMode('export-code-dump');
-            setDumpMode('tree'); // ✅ 預設為目錄結構模式
-            setPathInput('');
-            setCursorPosition(0);
-            return;
-        }
+            // 一般字元輸入
+            if (input && !key.ctrl && !key.meta) {
+                const newPath = 
+                    pathInput.slice(0, cursorPosition) + 
+                    input + 
+                    pathInput.slice(cursorPosition);
+                setPathInput(newPath);
+                setCursorPosition(cursorPosition + input.length);
+                return;
+            }
 
-        // 'e': 匯出當前檔案 diff（保持原邏輯）
-        if (input === 'e') {
-            handleExportSingle();
-            return;
+            return; // 在輸入模式下，不處理其他按鍵
         }
+
+        // ============ 正常瀏覽模式 ============
+        if (action) runAction(action);
     });
 
     // 準備渲染資料 (Slice)
     // 左側清單 Slice
     const visibleItems = allItems.slice(listScrollTop, listScrollTop + mainAreaHeight);
 
-    // 右側 Diff Slice
-    const diffLines = diffContent.split('\n');
-    const visibleDiff = diffLines.slice(diffScrollTop, diffScrollTop + mainAreaHeight).join('\n');
-    const diffProgress = diffLines.length > 0
-        ? Math.floor((diffScrollTop / Math.max(1, diffLines.length - mainAreaHeight + 1)) * 100)
+    // 右側 Diff Slice（可選取 hunk 時在標頭前標示勾選狀態與焦點）
+    const showHunkMarks = hunkLines.length > 0 && (focusPane === 'diff' || currentHunks !== undefined);
+    const focusedHunkIndex = Math.min(focusedHunk, hunkLines.length - 1);
+    const visibleDiff = annotatedDiff.slice(diffScrollTop, diffScrollTop + mainAreaHeight);
+    const visibleSplitRows = splitRows.slice(diffScrollTop, diffScrollTop + mainAreaHeight);
+    // 右欄內容寬度：扣掉邊框與 padding
+    const diffPaneWidth = Math.floor(columns / 2) - 4;
+    // 行號欄寬：依目前內容最大的行號
+    const gutterWidth = String(splitRows.reduce((max, row) => row.type === 'pair'
+        ? Math.max(max, row.left?.line ?? 0, row.right?.line ?? 0)
+        : max, 100)).length;
+    const hunkMarkers = new Map<number, string>();
+    if (showHunkMarks) {
+        hunkLines.forEach((line, hunk) => {
+            if (line < diffScrollTop || line >= diffScrollTop + mainAreaHeight) return;
+            const pointer = focusPane === 'diff' && hunk === focusedHunkIndex ? '▶' : ' ';
+            hunkMarkers.set(line - diffScrollTop, `${pointer}[${currentHunks?.has(hunk) ? '✓' : ' '}] `);
+        });
+    }
+    const diffProgress = previewLength > 0
+        ? Math.floor((diffScrollTop / Math.max(1, previewLength - mainAreaHeight + 1)) * 100)
         : 0;
 
     return (
         <Box width="100%" height={adjustedRows} flexDirection="column">
-            {(inputMode === 'export-path' || inputMode === 'export-overview' || inputMode === 'export-code-dump') ? (
+            {inputMode === 'pick-base-ref' ? (
+                // ===== Base ref 選擇器（全屏替換） =====
+                <Box flexDirection="column" height="100%" justifyContent="center" alignItems="center">
+                    <Box
+                        flexDirection="column"
+                        borderStyle="round"
+                        borderColor="cyan"
+                        paddingX={2}
+                        paddingY={1}
+                        width={Math.min(80, columns - 4)}
+                    >
+                        <Text bold color="cyan">Compare Against Base Ref</Text>
+
+                        <Box marginTop={1}>
+                            <Text dimColor>Target: </Text>
+                            <Text color="yellow">
+                                {compareTarget === 'HEAD' ? 'HEAD (committed only)' : 'Working Tree (incl. uncommitted)'}
+                            </Text>
+                            <Text dimColor> - Press Tab to switch</Text>
+                        </Box>
+
+                        <Box marginTop={1}>
+                            <Text dimColor>Filter: </Text>
+                            <Text>{pathInput}</Text>
+                            <Text inverse> </Text>
+                        </Box>
+
+                        <Box marginTop={1} flexDirection="column">
+                            {filteredRefs.length === 0 ? (
+                                <Text dimColor>No matching refs.</Text>
+                            ) : (() => {
+                                // 以 refIndex 為中心顯示一段視窗
+                                const windowSize = Math.max(3, mainAreaHeight - 10);
+                                const start = Math.max(0, Math.min(refIndex - Math.floor(windowSize / 2), filteredRefs.length - windowSize));
+                                return filteredRefs.slice(start, start + windowSize).map((ref, i) => {
+                                    const isFocused = start + i === refIndex;
+                                    const kindColor = ref.kind === 'branch' ? 'green' : ref.kind === 'remote' ? 'red' : 'yellow';
+                                    return (
+                                        <Text key={`${ref.kind}-${ref.name}`} {...(isFocused ? { backgroundColor: 'blue' } : {})}>
+                                            <Text color={kindColor}>{ref.kind.padEnd(6)}</Text>
+                                            <Text> {ref.name}</Text>
+                                        </Text>
+                                    );
+                                });
+                            })()}
+                        </Box>
+
+                        <Box marginTop={1} borderStyle="single" borderColor="gray" paddingX={1}>
+                            <Text dimColor>
+                                Enter: Compare  |  Tab: Switch Target  |  ↑↓: Move  |  Ctrl-U: Clear  |  Esc: Cancel
+                            </Text>
+                        </Box>
+                    </Box>
+                </Box>
+            ) : inputMode === 'command-palette' ? (
+                // ===== 命令面板（全屏替換） =====
+                <Box flexDirection="column" height="100%" justifyContent="center" alignItems="center">
+                    <Box
+                        flexDirection="column"
+                        borderStyle="round"
+                        borderColor="cyan"
+                        paddingX={2}
+                        paddingY={1}
+                        width={Math.min(80, columns - 4)}
+                    >
+                        <Text bold color="cyan">Command Palette</Text>
+
+                        <Box marginTop={1}>
+                            <Text dimColor>&gt; </Text>
+                            <Text>{pathInput}</Text>
+                            <Text inverse> </Text>
+                        </Box>
+
+                        <Box marginTop={1} flexDirection="column">
+                            {paletteMatches.length === 0 ? (
+                                <Text dimColor>No matching commands.</Text>
+                            ) : (() => {
+                                // 以 paletteIndex 為中心顯示一段視窗；按鍵靠右對齊
+                                const windowSize = Math.max(3, mainAreaHeight - 10);
+                                const start = Math.max(0, Math.min(paletteIndex - Math.floor(windowSize / 2), paletteMatches.length - windowSize));
+                                const innerWidth = Math.min(80, columns - 4) - 6;
+                                return paletteMatches.slice(start, start + windowSize).map(({ command, positions }, i) => {
+                                    const isFocused = start + i === paletteIndex;
+                                    const keys = command.action ? actionKeys(keymap, command.action) : '';
+                                    const title = `${command.title}${command.prompt ? '…' : ''}`;
+                                    const padding = ' '.repeat(Math.max(1, innerWidth - title.length - keys.length));
+                                    return (
+                                        <Text key={command.id} wrap="truncate-end" {...(isFocused ? { backgroundColor: 'blue' } : {})}>
+                                            {[...title].map((char, index) => positions.includes(index)
+                                                ? <Text key={index} color="yellow" bold>{char}</Text>
+                                                : char
+                                            )}
+                                            {padding}
+                                            <Text dimColor>{keys}</Text>
+                                        </Text>
+                                    );
+                                });
+                            })()}
+                        </Box>
+
+                        <Box marginTop={1} borderStyle="single" borderColor="gray" paddingX={1}>
+                            <Text dimColor>
+                                Enter: Run  |  ↑↓: Move  |  Ctrl-U: Clear  |  Esc: Cancel
+                            </Text>
+                        </Box>
+                    </Box>
+                </Box>
+            ) : inputMode === 'help' ? (
+                // ===== 說明面板（全屏替換，由 keymap 產生） =====
+                <Box flexDirection="column" height="100%" justifyContent="center" alignItems="center">
+                    <Box
+                        flexDirection="column"
+                        borderStyle="round"
+                        borderColor="cyan"
+                        paddingX={2}
+                        paddingY={1}
+                        width={Math.min(80, columns - 4)}
+                    >
+                        <Text>
+                            <Text bold color="cyan">Keybindings</Text>
+                            {helpLines.length > helpHeight && (
+                                <Text dimColor> ({helpScrollTop + 1}-{Math.min(helpLines.length, helpScrollTop + helpHeight)} of {helpLines.length})</Text>
+                            )}
+                        </Text>
+
+                        <Box marginTop={1} flexDirection="column">
+                            {helpLines.slice(helpScrollTop, helpScrollTop + helpHeight).map((line, i) => line.type === 'category' ? (
+                                <Text key={`category-${line.category}`} bold color="yellow">{line.category}</Text>
+                            ) : (
+                                <Text key={`action-${helpScrollTop + i}`} wrap="truncate-end">
+                                    <Text color="green">{`  ${line.keys}`.padEnd(14)}</Text>
+                                    <Text>{line.description}</Text>
+                                </Text>
+                            ))}
+                        </Box>
+
+                        <Box marginTop={1} borderStyle="single" borderColor="gray" paddingX={1}>
+                            <Text dimColor>
+                                ↑↓/PgUp/PgDn: Scroll  |  Remap via "keys" in config  |  Esc/?: Close
+                            </Text>
+                        </Box>
+                    </Box>
+                </Box>
+            ) : inputMode === 'diff-options' ? (
+                // ===== Diff 選項面板（全屏替換） =====
+                <Box flexDirection="column" height="100%" justifyContent="center" alignItems="center">
+                    <Box
+                        flexDirection="column"
+                        borderStyle="round"
+                        borderColor="cyan"
+                        paddingX={2}
+                        paddingY={1}
+                        width={Math.min(80, columns - 4)}
+                    >
+                        <Text bold color="cyan">Diff Options</Text>
+
+                        <Box marginTop={1} flexDirection="column">
+                            {DIFF_OPTION_ITEMS.map((item, i) => {
+                                const isFocused = i === diffOptionIndex;
+                                const isDefault = diffOptions[item.key] === DEFAULT_DIFF_OPTIONS[item.key];
+                                return (
+                                    <Text key={item.key} {...(isFocused ? { backgroundColor: 'blue' } : {})}>
+                                        <Text>{item.label.padEnd(30)}</Text>
+                                        <Text color={isDefault ? 'gray' : 'yellow'}>{formatDiffOption(diffOptions, item.key)}</Text>
+                                    </Text>
+                                );
+                            })}
+                        </Box>
+
+                        <Box marginTop={1}>
+                            <Text dimColor>git diff {diffOptionArgs(diffOptions).join(' ') || '(defaults)'}</Text>
+                        </Box>
+
+                        <Box marginTop={1} borderStyle="single" borderColor="gray" paddingX={1}>
+                            <Text dimColor>
+                                ↑↓: Move  |  ←→/Space: Change  |  r: Reset  |  Enter/Esc: Close
+                            </Text>
+                        </Box>
+                    </Box>
+                </Box>
+            ) : PATH_INPUT_MODES.includes(inputMode) ? (
                 // ===== 路徑輸入模式（全屏替換） =====
                 <Box flexDirection="column" height="100%" justifyContent="center" alignItems="center">
                     <Box
@@ -1188,9 +2196,12 @@ export const App = () => {
                         width={Math.min(80, columns - 4)}
                     >
                         <Text bold color="cyan">
-                            {inputMode === 'export-path' && 'Export Diff to File'}
+                            {inputMode === 'export-path' && (appMode === 'log'
+                                ? 'Export Commits to File'
+                                : appMode === 'stash' ? 'Export Stash to File' : 'Export Diff to File')}
                             {inputMode === 'export-overview' && 'Export File Overview'}
                             {inputMode === 'export-code-dump' && 'Export Code Dump'}
+                            {inputMode === 'export-conflict' && 'Export Conflict Bundle'}
                         </Text>
                         
                         {/* ✅ 顯示當前 dump 模式 */}
@@ -1204,6 +2215,47 @@ export const App = () => {
                             </Box>
                         )}
                         
+                        {inputMode === 'export-path' && (appMode === 'changes' || appMode === 'compare') && (
+                            <Box marginTop={1}>
+                                <Text dimColor>Content: </Text>
+                                <Text color="yellow">
+                                    {diffExportMode === 'diff' ? 'Diff only' : 'Diff + full file contents'}
+                                </Text>
+                                <Text dimColor> - Press Tab to switch</Text>
+                            </Box>
+                        )}
+
+                        {canChooseFormat && (
+                            <Box marginTop={1}>
+                                <Text>
+                                    <Text dimColor>Format: </Text>
+                                    <Text color="yellow">{formatLabel(exportFormat)}</Text>
+                                    <Text dimColor> - Ctrl-F: change</Text>
+                                </Text>
+                            </Box>
+                        )}
+
+                        {/* Token 預算：多檔 diff 可選擇超過時自動縮減 */}
+                        <Box marginTop={1}>
+                            <Text>
+                                <Text dimColor>Budget: </Text>
+                                <Text color="yellow">
+                                    {tokenBudget === null ? 'None' : `${formatTokenCount(tokenBudget)} tokens`}
+                                    {tokenBudget !== null && (canTrim && budgetPolicy === 'trim' ? ' (trim to fit)' : ' (warn)')}
+                                </Text>
+                                <Text dimColor> - Ctrl-B: change{canTrim && ', Ctrl-T: warn/trim'}</Text>
+                            </Text>
+                        </Box>
+                        {canTrim && (
+                            <Text>
+                                <Text dimColor>Estimated: </Text>
+                                <Text color={overBudget ? 'red' : 'green'}>~{formatTokenCount(selectionTokens)} tokens</Text>
+                                <Text dimColor>
+                                    {diffExportMode === 'diff-with-files' && ' + file contents'} ({tokenizer.name})
+                                </Text>
+                            </Text>
+                        )}
+
                         {/* ✅ 完全重寫：使用單一 Text 組件 */}
                         <Box marginTop={1}>
                             <Text dimColor>Path: </Text>
@@ -1219,12 +2271,16 @@ export const App = () => {
                                     // 如果路徑為空，顯示提示
                                     if (pathInput.length === 0) {
                                         let defaultName = '';
-                                        if (inputMode === 'export-path') defaultName = 'diff_YYYYMMDD_HHMMSS.txt';
-                                        else if (inputMode === 'export-overview') defaultName = 'files_overview_YYYYMMDD_HHMMSS.txt';
+                                        const dir = displayDir(config.exportDir);
+                                        const extension = canChooseFormat ? formatExtension(exportFormat) : 'txt';
+                                        if (inputMode === 'export-path') defaultName = appMode === 'stash' ? 'stash_YYYYMMDD_HHMMSS.txt' : `diff_YYYYMMDD_HHMMSS.${extension}`;
+                                        else if (inputMode === 'export-overview') defaultName = `files_overview_YYYYMMDD_HHMMSS.${extension}`;
+                                        else if (inputMode === 'export-conflict') defaultName = 'conflicts_YYYYMMDD_HHMMSS.txt';
                                         else if (inputMode === 'export-code-dump') {
                                             // ✅ 兩種模式都是同一個目錄，只是內部結構不同
-                                            defaultName = './code_dump_YYYYMMDD_HHMMSS/';
+                                            defaultName = 'code_dump_YYYYMMDD_HHMMSS/';
                                         }
+                                        defaultName = `${dir}/${defaultName}`;
                                         
                                         return (
                                             <>
@@ -1247,9 +2303,14 @@ export const App = () => {
 
                         <Box marginTop={1}>
                             <Text color="yellow">
-                                {inputMode === 'export-path' && `${selectedPaths.size} file(s) selected`}
+                                {inputMode === 'export-path' && (appMode === 'log'
+                                    ? `${selectedCommits.size} commit(s) selected`
+                                    : appMode === 'stash' && currentStash
+                                        ? `stash@{${currentStash.index}}: ${currentStash.message}`
+                                        : `${selectedPaths.size} file(s) selected`)}
                                 {inputMode === 'export-overview' && 'All Git tracked files'}
                                 {inputMode === 'export-code-dump' && 'Merge C++ & export all files'}
+                                {inputMode === 'export-conflict' && 'Base / ours / theirs + conflicted working file'}
                             </Text>
                         </Box>
 
@@ -1264,8 +2325,8 @@ export const App = () => {
 
                         <Box marginTop={1} borderStyle="single" borderColor="gray" paddingX={1}>
                             <Text dimColor>
-                                Enter: Export  |  
-                                {inputMode === 'export-code-dump' && ' Tab: Switch Mode  |  '}
+                                Enter: Export  |  Ctrl-Y: Copy  |  
+                                {(inputMode === 'export-code-dump' || (inputMode === 'export-path' && (appMode === 'changes' || appMode === 'compare'))) && ' Tab: Switch Mode  |  '}
                                 Ctrl-V: Paste  |  Ctrl-U: Clear  |  Esc: Cancel
                             </Text>
                         </Box>
@@ -1278,13 +2339,21 @@ export const App = () => {
                     <Box width="50%" borderStyle="single" flexDirection="column">
                         {/* Header */}
                         <Box borderStyle="single" borderColor="blue" paddingX={1}>
-                            <Text color="cyan" bold>Files</Text>
+                            <Text color="cyan" bold>{appMode === 'log' ? 'Commits' : appMode === 'stash' ? 'Stashes' : 'Files'}</Text>
+                            {branch && (
+                                <Text dimColor>
+                                    {' '}[{branch.head ?? `detached ${branch.oid?.slice(0, 7) ?? ''}`}
+                                    {branch.upstream && ` → ${branch.upstream}`}
+                                    {branch.ahead !== undefined && ` ↑${branch.ahead}`}
+                                    {branch.behind !== undefined && ` ↓${branch.behind}`}]
+                                </Text>
+                            )}
                         </Box>
 
                         {/* Content */}
                         <Box flexGrow={1} flexDirection="column" paddingX={1}>
                             {visibleItems.length === 0 ? (
-                                <Text dimColor>No changes.</Text>
+                                <Text dimColor>{appMode === 'log' ? 'No commits.' : appMode === 'stash' ? 'No stashes.' : 'No changes.'}</Text>
                             ) : (
                                 visibleItems.map((item, i) => {
                                     const realIndex = listScrollTop + i;
@@ -1299,6 +2368,35 @@ export const App = () => {
                                                 </Text>
                                             </Box>
                                         );
+                                    } else if (item.type === 'commit') {
+                                        const { commit } = item;
+                                        const isSelected = selectedCommits.has(commit.hash);
+                                        const checkMark = isSelected ? '✓' : ' ';
+
+                                        return (
+                                            <Box key={commit.hash}>
+                                                <Text {...(bgColor ? { backgroundColor: bgColor } : {})} wrap="truncate-end">
+                                                    <Text color={isSelected ? 'green' : 'gray'}>[{checkMark}] </Text>
+                                                    <Text color="yellow">{commit.shortHash}</Text>
+                                                    <Text dimColor> {commit.date} </Text>
+                                                    <Text color="cyan">{commit.author}</Text>
+                                                    <Text> {commit.subject}</Text>
+                                                </Text>
+                                            </Box>
+                                        );
+                                    } else if (item.type === 'stash') {
+                                        const { stash } = item;
+
+                                        return (
+                                            <Box key={stash.hash}>
+                                                <Text {...(bgColor ? { backgroundColor: bgColor } : {})} wrap="truncate-end">
+                                                    <Text color="yellow">stash@{'{'}{stash.index}{'}'}</Text>
+                                                    <Text dimColor> {stash.date} </Text>
+                                                    <Text color="cyan">({stash.files.length} files)</Text>
+                                                    <Text> {stash.message}</Text>
+                                                </Text>
+                                            </Box>
+                                        );
                                     } else if (item.type === 'directory') {
                                         const isCollapsed = collapsedDirs.has(item.node.path);
                                         const indent = '  '.repeat(item.node.depth);
@@ -1314,23 +2412,38 @@ export const App = () => {
                                     } else {
                                         const { file, group } = item;
                                         const isSelected = selectedPaths.has(file.path);
-                                        const checkMark = isSelected ? '✓' : ' ';
+                                        const isPartial = !isSelected && hunkSelections.has(getHunkKey(group, file.path));
+                                        const checkMark = isSelected ? '✓' : isPartial ? '◐' : ' ';
                                         const indent = viewMode === 'tree' && item.node
                                             ? '  '.repeat(item.node.depth)
+                                            : item.submodule ? '  ' : '';
+                                        // 有內部變更的 submodule 可展開
+                                        const expandIcon = viewMode === 'tree' && item.node?.children
+                                            ? (collapsedDirs.has(item.node.path) ? '▶ ' : '▼ ')
                                             : '';
 
-                                        let statusColor = 'white';
-                                        if (file.status === '?' || file.status === '??') statusColor = 'green';
-                                        if (file.status.includes('M')) statusColor = 'yellow';
-                                        if (file.status.includes('D')) statusColor = 'red';
+                                        const statusColor = getStatusColor(getGroupStatus(file, group));
+                                        const name = viewMode === 'tree' ? file.path.split('/').pop() || file.path : file.path;
 
                                         return (
-                                            <Box key={file.path}>
-                                                <Text {...(bgColor ? { backgroundColor: bgColor } : {})}>
+                                            <Box key={`${group}-${file.path}`}>
+                                                <Text {...(bgColor ? { backgroundColor: bgColor } : {})} wrap="truncate-end">
                                                     {indent}
-                                                    <Text color={isSelected ? 'green' : 'gray'}>[{checkMark}]</Text>
-                                                    <Text color={statusColor}> {file.status.trim().padEnd(2)} </Text>
-                                                    <Text>{viewMode === 'tree' ? file.path.split('/').pop() || file.path : file.path}</Text>
+                                                    <Text color={isSelected ? 'green' : isPartial ? 'yellow' : 'gray'}>[{checkMark}]</Text>
+                                                    <Text color={statusColor}> {getStatusLabel(file, group).padEnd(2)} </Text>
+                                                    {file.oldPath && viewMode === 'flat' && (
+                                                        <Text dimColor>{file.oldPath} → </Text>
+                                                    )}
+                                                    <Text>{expandIcon}{name}</Text>
+                                                    {file.score !== undefined && file.score < 100 && (
+                                                        <Text dimColor> ({file.score}%)</Text>
+                                                    )}
+                                                    {file.submodule && (
+                                                        <Text color="magenta"> [submodule{file.submodule.commitChanged ? ' +commit' : ''}{file.submodule.trackedChanges ? ' +modified' : ''}{file.submodule.untrackedChanges ? ' +untracked' : ''}]</Text>
+                                                    )}
+                                                    {!item.submodule && fileTokens.has(getHunkKey(group, file.path)) && (
+                                                        <Text dimColor> ~{formatTokenCount(fileTokens.get(getHunkKey(group, file.path))!)}</Text>
+                                                    )}
                                                 </Text>
                                             </Box>
                                         );
@@ -1342,17 +2455,63 @@ export const App = () => {
                         {/* Footer */}
                         <Box borderStyle="single" paddingX={1}>
                             <Text>
-                                <Text color="cyan">{viewMode === 'flat' ? 'Files' : 'Tree'}</Text>
-                                <Text dimColor> | </Text>
-                                <Text color="yellow">
-                                    Selected: {selectedPaths.size}/{allItems.filter(item => item.type === 'file').length}
-                                </Text>
+                                {appMode === 'stash' ? (
+                                    <>
+                                        <Text color="cyan">Stash</Text>
+                                        <Text dimColor> | </Text>
+                                        <Text color="yellow">Stashes: {stashes.length}</Text>
+                                    </>
+                                ) : appMode === 'log' ? (
+                                    <>
+                                        <Text color="cyan">Log</Text>
+                                        <Text dimColor> | </Text>
+                                        <Text color="yellow">Selected: {selectedCommits.size}/{commits.length}</Text>
+                                    </>
+                                ) : (
+                                    <>
+                                        <Text color="cyan">{viewMode === 'flat' ? 'Files' : 'Tree'}</Text>
+                                        {appMode === 'compare' && compareRange && (
+                                            <Text color="magenta"> vs {compareRange.base}</Text>
+                                        )}
+                                        {wordDiffExport && (
+                                            <Text color="magenta"> [word-diff]</Text>
+                                        )}
+                                        <Text dimColor> | </Text>
+                                        <Text color="yellow">
+                                            Selected: {selectedPaths.size}/{allItems.filter(item => item.type === 'file').length}
+                                            {hunkSelections.size > 0 && ` (+${hunkSelections.size} partial)`}
+                                        </Text>
+                                        {selectionTokens > 0 && (
+                                            <Text color={overBudget ? 'red' : 'gray'}>
+                                                {' '}~{formatTokenCount(selectionTokens)} tokens
+                                                {tokenBudget !== null && ` / ${formatTokenCount(tokenBudget)}`}
+                                            </Text>
+                                        )}
+                                    </>
+                                )}
+                                {describeDiffOptions(diffOptions) && (
+                                    <Text color="magenta"> [{describeDiffOptions(diffOptions)}]</Text>
+                                )}
                                 <Text dimColor> | </Text>
                                 {exportStatus ? (
-                                    <Text color="green">{exportStatus}</Text>
+                                    <Text color={exportStatus.includes('⚠') ? 'yellow' : 'green'}>{exportStatus}</Text>
+                                ) : appMode === 'stash' ? (
+                                    <Text dimColor>
+                                        {footerHints(keymap, ['exportCurrent', 'copyCurrent', 'exportSelected', ['stashMode', 'Changes'], 'commandPalette', 'help', 'quit'])}
+                                    </Text>
+                                ) : appMode === 'log' ? (
+                                    <Text dimColor>
+                                        {footerHints(keymap, ['exportCurrent', 'copyCurrent', ['exportSelected', 'ExportSelected'], 'toggleSelect', 'selectAll', ['logMode', 'Changes'], 'commandPalette', 'help', 'quit'])}
+                                    </Text>
                                 ) : (
                                     <Text dimColor>
-                                        e:Export E:ExportAll D:CodeDump f:Overview F:OverviewTo Spc:Select a:All /:Mode {viewMode === 'tree' && 'Enter:Toggle'} q:Quit
+                                        {footerHints(keymap, [
+                                            'exportCurrent', 'copyCurrent', ['exportSelected', 'ExportAll'], 'exportCodeDump', 'exportOverview', 'exportOverviewTo',
+                                            'toggleSelect', 'selectAll', 'toggleViewMode', 'logMode', 'stashMode', 'compareBase',
+                                            ...(appMode === 'compare' ? ['endCompare' as const] : []),
+                                            ...(viewMode === 'tree' ? ['toggleDirectory' as const] : []),
+                                            'commandPalette', 'help', 'quit',
+                                        ])}
                                     </Text>
                                 )}
                             </Text>
@@ -1360,22 +2519,51 @@ export const App = () => {
                     </Box>
 
                     {/* 右欄 */}
-                    <Box width="50%" borderStyle="single" flexDirection="column">
+                    <Box width="50%" borderStyle="single" flexDirection="column" {...(focusPane === 'diff' ? { borderColor: 'cyan' } : {})}>
                         <Box borderStyle="single" borderColor="yellow" paddingX={1}>
                             <Text color="yellow" bold>
-                                {currentFile?.path || 'No file'}
+                                {currentCommit
+                                    ? `${currentCommit.shortHash} ${currentCommit.subject}`
+                                    : currentStash
+                                        ? `stash@{${currentStash.index}}`
+                                        : currentFile?.path || 'No file'}
                             </Text>
-                            {diffLines.length > mainAreaHeight && (
+                            {currentGroup === 'conflicts' && (
+                                <Text color="redBright"> [{conflictView}]</Text>
+                            )}
+                            {focusPane === 'diff' && hunkLines.length > 0 && (
+                                <Text color="cyan"> Hunk {focusedHunkIndex + 1}/{hunkLines.length}</Text>
+                            )}
+                            {diffLayout === 'split' && (
+                                <Text color="magenta"> [{splitActive ? 'split' : columns < SPLIT_MIN_COLUMNS ? 'unified: too narrow' : 'unified'}]</Text>
+                            )}
+                            {previewLength > mainAreaHeight && (
                                 <Text dimColor> {diffProgress}%</Text>
                             )}
                         </Box>
 
                         <Box flexGrow={1} paddingX={1}>
-                            <Text>{visibleDiff}</Text>
+                            {splitActive ? (
+                                <SplitDiffView rows={visibleSplitRows} width={diffPaneWidth} gutterWidth={gutterWidth} markers={hunkMarkers} />
+                            ) : (
+                                <DiffView lines={visibleDiff} markers={hunkMarkers} />
+                            )}
                         </Box>
 
                         <Box borderStyle="single" paddingX={1}>
-                            <Text dimColor>PgUp/PgDn: Scroll Diff</Text>
+                            <Text dimColor>
+                                {[
+                                    `${actionKeys(keymap, 'pageUp')}/${actionKeys(keymap, 'pageDown')}: Scroll Diff`,
+                                    `${actionKeys(keymap, 'toggleLayout')}: ${diffLayout === 'split' ? 'Unified' : 'Split'}`,
+                                    `${actionKeys(keymap, 'switchFocus')}: ${focusPane === 'diff' ? 'File List' : 'Focus Diff'}`,
+                                    ...(focusPane === 'diff' && hunkLines.length > 0
+                                        ? [`${actionKeys(keymap, 'up')}/${actionKeys(keymap, 'down')}: Hunk`, `${actionKeys(keymap, 'toggleSelect')}: Select Hunk`]
+                                        : []),
+                                    ...(currentGroup === 'conflicts'
+                                        ? [`${actionKeys(keymap, 'cycleConflictView')}: View (${conflictView})`, `${actionKeys(keymap, 'exportConflicts')}: Export Bundle`]
+                                        : []),
+                                ].join('  |  ')}
+                            </Text>
                         </Box>
                     </Box>
                 </Box>
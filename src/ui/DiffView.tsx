@@ -0,0 +1,401 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import type { DiffFile, DiffLine } from '../git/types.js';
+import { diffWords, type ChangeRange } from '../git/wordDiff.js';
+import { detectLanguage, highlightLine, type HighlightState, type Language, type Token, type TokenKind } from './highlight.js';
+
+// 超過這個行數時只上 diff 顏色，不做語法高亮
+const MAX_HIGHLIGHT_LINES = 20000;
+
+// 預覽中每一行的類型
+export type DiffLineKind =
+    | 'file-header'   // diff --git、index、---、+++ 等
+    | 'hunk'          // @@ ... @@
+    | 'add'
+    | 'del'
+    | 'context'
+    | 'no-newline'    // \ No newline at end of file
+    | 'text';         // diff 以外的內容（commit 訊息、stash 檔案清單、衝突 stage 內容 ...）
+
+export type AnnotatedLine = {
+    kind: DiffLineKind;
+    prefix: string;   // +/-/空白標記（combined diff 時有多個欄位）
+    tokens: Token[];
+    changes?: ChangeRange[];  // 與配對行相比實際變更的字元範圍（行內差異）
+};
+
+// 標示是否位於行內變更範圍的 token
+type Segment = Token & { changed: boolean };
+
+const TOKEN_COLORS: Partial<Record<TokenKind, string>> = {
+    keyword: 'magenta',
+    type: 'cyan',
+    string: 'yellow',
+    number: 'blueBright',
+    comment: 'gray',
+    meta: 'blue',
+    property: 'cyanBright',
+    heading: 'magentaBright',
+};
+
+const LINE_COLORS: Partial<Record<DiffLineKind, string>> = {
+    add: 'green',
+    del: 'red',
+    hunk: 'cyan',
+};
+
+/**
+ * 逐行標記 diff 的類型，並依各檔案的副檔名做語法高亮
+ * fallbackPath 用於沒有 diff 標頭的內容（例如衝突檔案的 stage 內容）
+ */
+export function annotateDiff(lines: string[], fallbackPath?: string): AnnotatedLine[] {
+    const highlight = lines.length <= MAX_HIGHLIGHT_LINES;
+    const result: AnnotatedLine[] = [];
+
+    let language: Language | null = fallbackPath ? detectLanguage(fallbackPath) : null;
+    let inFile = false;
+    let columns = 0;    // 0 表示不在 hunk 內
+    // 舊版本（刪除行）與新版本（新增行）各自追蹤跨行狀態
+    let oldState: HighlightState = {};
+    let newState: HighlightState = {};
+
+    for (const line of lines) {
+        // ---- Hunk 內容 ----
+        if (columns > 0 && /^[ +\-\\]/.test(line)) {
+            if (line.startsWith('\\')) {
+                result.push({ kind: 'no-newline', prefix: '', tokens: [{ kind: 'plain', text: line }] });
+                continue;
+            }
+
+            const prefix = line.slice(0, columns);
+            const content = line.slice(columns);
+            const kind: DiffLineKind = prefix.includes('+') ? 'add' : prefix.includes('-') ? 'del' : 'context';
+
+            if (!highlight || !language) {
+                result.push({ kind, prefix, tokens: [{ kind: 'plain', text: content }] });
+                continue;
+            }
+
+            const highlighted = highlightLine(content, language, kind === 'del' ? oldState : newState);
+            if (kind === 'del') {
+                oldState = highlighted.state;
+            } else if (kind === 'add') {
+                newState = highlighted.state;
+            } else {
+                oldState = newState = highlighted.state;
+            }
+            result.push({ kind, prefix, tokens: highlighted.tokens });
+            continue;
+        }
+        columns = 0;
+
+        // ---- 新檔案 ----
+        if (/^diff --(git|cc|combined) /.test(line)) {
+            inFile = true;
+            const newPath = line.startsWith('diff --git ') ? line.slice(line.lastIndexOf(' b/') + 3) : line.slice(line.indexOf(' ', 5) + 1);
+            language = detectLanguage(newPath);
+            result.push({ kind: 'file-header', prefix: '', tokens: [{ kind: 'plain', text: line }] });
+            continue;
+        }
+
+        // ---- Hunk 標頭："@@" 的數量減一就是標記欄位數 ----
+        const hunk = inFile ? /^(@{2,}) /.exec(line) : null;
+        if (hunk) {
+            columns = hunk[1]!.length - 1;
+            oldState = {};
+            newState = {};
+            result.push({ kind: 'hunk', prefix: '', tokens: [{ kind: 'plain', text: line }] });
+            continue;
+        }
+
+        if (inFile) {
+            // +++ 的路徑比 diff --git 標頭準確（引號路徑等）
+            if (line.startsWith('+++ ') && line !== '+++ /dev/null') {
+                language = detectLanguage(line.slice(4).replace(/^"?b\//, '').replace(/"$/, ''));
+            }
+            result.push({ kind: 'file-header', prefix: '', tokens: [{ kind: 'plain', text: line }] });
+            continue;
+        }
+
+        // ---- Diff 以外的內容：有語言時視為原始程式碼 ----
+        if (highlight && language) {
+            const highlighted = highlightLine(line, language, newState);
+            newState = highlighted.state;
+            result.push({ kind: 'text', prefix: '', tokens: highlighted.tokens });
+        } else {
+            result.push({ kind: 'text', prefix: '', tokens: [{ kind: 'plain', text: line }] });
+        }
+    }
+
+    if (highlight) markWordChanges(result);
+    return result;
+}
+
+// 連續的刪除行與緊接的新增行依序配對，標示行內變更範圍（combined diff 不處理）
+function markWordChanges(lines: AnnotatedLine[]): void {
+    let i = 0;
+    while (i < lines.length) {
+        if (lines[i]!.kind !== 'del' || lines[i]!.prefix.length !== 1) {
+            i++;
+            continue;
+        }
+
+        let adds = i;
+        while (adds < lines.length && lines[adds]!.kind === 'del') adds++;
+        let end = adds;
+        while (end < lines.length && lines[end]!.kind === 'add') end++;
+
+        for (let n = 0; n < Math.min(adds - i, end - adds); n++) {
+            const del = lines[i + n]!;
+            const add = lines[adds + n]!;
+            const changes = diffWords(tokensText(del.tokens), tokensText(add.tokens));
+            if (changes) {
+                del.changes = changes.old;
+                add.changes = changes.new;
+            }
+        }
+        i = Math.max(end, i + 1);
+    }
+}
+
+const tokensText = (tokens: Token[]) => tokens.map(t => t.text).join('');
+
+// 在變更範圍的邊界切開 token
+function toSegments(tokens: Token[], changes: ChangeRange[] = []): Segment[] {
+    const segments: Segment[] = [];
+    let pos = 0;
+    for (const token of tokens) {
+        let start = 0;
+        while (start < token.text.length) {
+            const at = pos + start;
+            const range = changes.find(([from, to]) => at >= from && at < to);
+            // 切到目前範圍的結尾，或下一個範圍的開頭
+            const next = range
+                ? range[1]
+                : Math.min(...changes.filter(([from]) => from > at).map(([from]) => from), pos + token.text.length);
+            const end = Math.min(next, pos + token.text.length) - pos;
+            segments.push({ kind: token.kind, text: token.text.slice(start, end), changed: range !== undefined });
+            start = end;
+        }
+        pos += token.text.length;
+    }
+    return segments;
+}
+
+// 一般文字跟隨行的顏色；語法 token 用自己的顏色；行內變更以反白顯示
+const SegmentText = ({ segment, lineColor }: { segment: Segment; lineColor: string | undefined }) => {
+    if (segment.changed) {
+        return <Text {...(lineColor ? { color: lineColor } : {})} inverse>{segment.text}</Text>;
+    }
+    const color = segment.kind === 'plain' ? lineColor : TOKEN_COLORS[segment.kind];
+    return (
+        <Text
+            {...(color ? { color } : {})}
+            {...(segment.kind === 'heading' || segment.kind === 'emphasis' ? { bold: true } : {})}
+        >
+            {segment.text}
+        </Text>
+    );
+};
+
+type DiffViewProps = {
+    lines: AnnotatedLine[];           // 已切好捲動範圍的行
+    markers?: Map<number, string>;    // 行 index → 行首標記（例如 hunk 的勾選狀態）
+};
+
+/**
+ * Diff 預覽：依行類型上色，程式碼部分套用語法高亮
+ */
+export const DiffView = ({ lines, markers }: DiffViewProps) => (
+    <Box flexDirection="column">
+        {lines.map((line, i) => (
+            <Text key={i} wrap="truncate-end">
+                {markers?.has(i) && <Text color="cyan">{markers.get(i)}</Text>}
+                <DiffLineContent line={line} />
+            </Text>
+        ))}
+    </Box>
+);
+
+const DiffLineContent = ({ line }: { line: AnnotatedLine }) => {
+    const lineColor = LINE_COLORS[line.kind];
+
+    if (line.kind === 'file-header') {
+        return <Text bold>{line.tokens.map(t => t.text).join('')}</Text>;
+    }
+    if (line.kind === 'no-newline') {
+        return <Text dimColor>{line.tokens.map(t => t.text).join('')}</Text>;
+    }
+
+    return (
+        <>
+            {line.prefix && <Text {...(lineColor ? { color: lineColor } : {})}>{line.prefix}</Text>}
+            {toSegments(line.tokens, line.changes).map((segment, i) => (
+                <SegmentText key={i} segment={segment} lineColor={lineColor} />
+            ))}
+        </>
+    );
+};
+
+// ================= 左右並排（split）模式 =================
+
+// 一側的一行
+type SplitCell = {
+    kind: 'add' | 'del' | 'context';
+    line: number;
+    tokens: Token[];
+    changes?: ChangeRange[];
+};
+
+export type SplitRow =
+    | { type: 'text'; text: string }                    // diff 之前的內容（commit 訊息、stash 檔案清單）
+    | { type: 'file'; text: string }                    // 檔案標題
+    | { type: 'hunk'; text: string }                    // @@ 標頭
+    | { type: 'pair'; left: SplitCell | null; right: SplitCell | null };
+
+// Tab 以固定寬度展開，避免欄位對不齊
+const TAB = '    ';
+
+/**
+ * 由解析後的 diff 建立左右並排的行：刪除與新增依序配對，context 兩側同時顯示
+ * prelude 為第一個 "diff " 之前的內容
+ */
+export function buildSplitRows(files: DiffFile[], prelude: string[] = []): SplitRow[] {
+    const rows: SplitRow[] = prelude.map(text => ({ type: 'text' as const, text }));
+
+    for (const file of files) {
+        const path = file.newPath ?? file.oldPath ?? '';
+        const title = file.status === 'renamed' || file.status === 'copied'
+            ? `${file.oldPath} → ${file.newPath} (${file.status})`
+            : `${path} (${file.status})`;
+        rows.push({ type: 'file', text: title });
+
+        if (file.isBinary) {
+            rows.push({ type: 'text', text: 'Binary files differ' });
+            continue;
+        }
+
+        const language = detectLanguage(path);
+        for (const hunk of file.hunks) {
+            rows.push({ type: 'hunk', text: hunk.header });
+
+            // 兩側各自追蹤語法高亮的跨行狀態
+            let oldState: HighlightState = {};
+            let newState: HighlightState = {};
+            const toCell = (line: DiffLine, side: 'old' | 'new'): SplitCell => {
+                const content = line.content.replace(/\t/g, TAB);
+                let tokens: Token[] = [{ kind: 'plain', text: content }];
+                if (language) {
+                    const highlighted = highlightLine(content, language, side === 'old' ? oldState : newState);
+                    if (side === 'old') oldState = highlighted.state; else newState = highlighted.state;
+                    tokens = highlighted.tokens;
+                }
+                return { kind: line.type, line: (side === 'old' ? line.oldLine : line.newLine) ?? 0, tokens };
+            };
+
+            let dels: DiffLine[] = [];
+            let adds: DiffLine[] = [];
+            const flush = () => {
+                for (let i = 0; i < Math.max(dels.length, adds.length); i++) {
+                    const del = dels[i];
+                    const add = adds[i];
+                    const left = del ? toCell(del, 'old') : null;
+                    const right = add ? toCell(add, 'new') : null;
+                    const changes = left && right ? diffWords(tokensText(left.tokens), tokensText(right.tokens)) : null;
+                    if (left && right && changes) {
+                        left.changes = changes.old;
+                        right.changes = changes.new;
+                    }
+                    rows.push({ type: 'pair', left, right });
+                }
+                dels = [];
+                adds = [];
+            };
+
+            for (const line of hunk.lines) {
+                if (line.type === 'del') {
+                    // 新增之後又出現刪除：前一組已結束
+                    if (adds.length > 0) flush();
+                    dels.push(line);
+                } else if (line.type === 'add') {
+                    adds.push(line);
+                } else {
+                    flush();
+                    rows.push({ type: 'pair', left: toCell(line, 'old'), right: toCell(line, 'new') });
+                }
+            }
+            flush();
+        }
+    }
+
+    return rows;
+}
+
+type SplitDiffViewProps = {
+    rows: SplitRow[];                 // 已切好捲動範圍的行
+    width: number;                    // 可用寬度（字元數）
+    gutterWidth: number;              // 行號欄寬
+    markers?: Map<number, string>;
+};
+
+/**
+ * 左右並排的 diff：左側為舊版本，右側為新版本，超出欄寬的內容截斷
+ */
+export const SplitDiffView = ({ rows, width, gutterWidth, markers }: SplitDiffViewProps) => {
+    // 每側：行號 + 空白 + 標記 + 空白 + 內容；中間以 "│" 分隔
+    const cellWidth = Math.max(1, Math.floor((width - 1) / 2) - gutterWidth - 3);
+
+    return (
+        <Box flexDirection="column">
+            {rows.map((row, i) => {
+                if (row.type !== 'pair') {
+                    const props = row.type === 'file' ? { bold: true } : row.type === 'hunk' ? { color: 'cyan' } : {};
+                    return (
+                        <Text key={i} wrap="truncate-end">
+                            {markers?.has(i) && <Text color="cyan">{markers.get(i)}</Text>}
+                            <Text {...props}>{row.text}</Text>
+                        </Text>
+                    );
+                }
+
+                return (
+                    <Text key={i} wrap="truncate-end">
+                        <SplitCellContent cell={row.left} width={cellWidth} gutterWidth={gutterWidth} />
+                        <Text dimColor>│</Text>
+                        <SplitCellContent cell={row.right} width={cellWidth} gutterWidth={gutterWidth} />
+                    </Text>
+                );
+            })}
+        </Box>
+    );
+};
+
+const SplitCellContent = ({ cell, width, gutterWidth }: { cell: SplitCell | null; width: number; gutterWidth: number }) => {
+    if (!cell) {
+        return <Text>{' '.repeat(gutterWidth + 3 + width)}</Text>;
+    }
+
+    const lineColor = LINE_COLORS[cell.kind];
+    const sign = cell.kind === 'add' ? '+' : cell.kind === 'del' ? '-' : ' ';
+
+    // 截斷到欄寬，不足的部分補空白讓分隔線對齊
+    let remaining = width;
+    const clipped: Segment[] = [];
+    for (const segment of toSegments(cell.tokens, cell.changes)) {
+        if (remaining <= 0) break;
+        const text = segment.text.slice(0, remaining);
+        clipped.push({ ...segment, text });
+        remaining -= text.length;
+    }
+
+    return (
+        <>
+            <Text dimColor>{String(cell.line).padStart(gutterWidth)} </Text>
+            <Text {...(lineColor ? { color: lineColor } : {})}>{sign} </Text>
+            {clipped.map((segment, i) => (
+                <SegmentText key={i} segment={segment} lineColor={lineColor} />
+            ))}
+            <Text>{' '.repeat(remaining)}</Text>
+        </>
+    );
+};
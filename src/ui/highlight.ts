@@ -0,0 +1,345 @@
+// 輕量的逐行語法高亮（tokenizer 式，不追求完整的語法分析）
+
+export type Language = 'typescript' | 'cpp' | 'hlsl' | 'python' | 'json' | 'markdown';
+
+export type TokenKind =
+    | 'plain'
+    | 'keyword'
+    | 'type'
+    | 'string'
+    | 'number'
+    | 'comment'
+    | 'meta'        // 前置處理器、decorator、HLSL semantic、Markdown 連結網址
+    | 'property'    // JSON key
+    | 'heading'     // Markdown 標題
+    | 'emphasis';   // Markdown 粗體/斜體
+
+export type Token = { kind: TokenKind; text: string };
+
+// 跨行狀態：未結束的區塊註解或多行字串
+export type HighlightState = {
+    blockComment?: boolean;
+    openQuote?: string;     // 未結束的多行字串（` 或 """ 等）
+    fence?: boolean;        // Markdown 的 ``` 程式碼區塊
+};
+
+type LanguageSpec = {
+    keywords: Set<string>;
+    types?: Set<string>;
+    typePattern?: RegExp;       // 額外視為型別的識別字
+    metaPattern?: RegExp;       // 額外視為 meta 的識別字
+    lineComment?: string;
+    blockComment?: [string, string];
+    quotes: string[];           // 長的要排在前面（""" 要比 " 先比對）
+    multilineQuotes?: string[]; // 可以跨行的字串
+    preprocessor?: boolean;     // 以 # 開頭的整行
+    decorators?: boolean;       // @name
+    properties?: boolean;       // 後面接著 ":" 的字串視為 key
+};
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+// PascalCase 識別字視為型別（class、struct 等）
+const PASCAL_CASE = /^[A-Z][a-z0-9]\w*$/;
+
+const SPECS: Record<Exclude<Language, 'markdown'>, LanguageSpec> = {
+    typescript: {
+        keywords: words(`
+            abstract as async await break case catch class const continue debugger declare default delete do
+            else enum export extends false finally for from function get if implements import in infer instanceof
+            interface is keyof let namespace new null of package private protected public readonly return satisfies
+            set static super switch this throw true try type typeof undefined var void while with yield
+        `),
+        types: words('any bigint boolean never number object string symbol unknown'),
+        typePattern: PASCAL_CASE,
+        lineComment: '//',
+        blockComment: ['/*', '*/'],
+        quotes: ['"', "'", '`'],
+        multilineQuotes: ['`'],
+        decorators: true,
+    },
+    cpp: {
+        keywords: words(`
+            alignas alignof auto break case catch class const consteval constexpr constinit const_cast continue
+            co_await co_return co_yield decltype default delete do dynamic_cast else enum explicit export extern
+            false final for friend goto if inline mutable namespace new noexcept nullptr operator override private
+            protected public register reinterpret_cast return sizeof static static_assert static_cast struct switch
+            template this thread_local throw true try typedef typeid typename union using virtual volatile while
+        `),
+        types: words(`
+            bool char char8_t char16_t char32_t double float int long short signed unsigned void wchar_t size_t
+            ptrdiff_t int8_t int16_t int32_t int64_t uint8_t uint16_t uint32_t uint64_t
+        `),
+        typePattern: PASCAL_CASE,
+        lineComment: '//',
+        blockComment: ['/*', '*/'],
+        quotes: ['"', "'"],
+        preprocessor: true,
+    },
+    hlsl: {
+        keywords: words(`
+            break case cbuffer centroid column_major const continue default discard do else export extern false
+            for groupshared if in inline inout linear namespace nointerpolation noperspective out packoffset precise
+            register return row_major sample static struct switch tbuffer template true typedef typename uniform
+            while
+        `),
+        types: words(`
+            void matrix vector string SamplerState SamplerComparisonState Buffer RWBuffer StructuredBuffer
+            RWStructuredBuffer ByteAddressBuffer RWByteAddressBuffer AppendStructuredBuffer ConsumeStructuredBuffer
+            Texture1D Texture1DArray Texture2D Texture2DArray Texture2DMS Texture3D TextureCube TextureCubeArray
+            RWTexture1D RWTexture2D RWTexture2DArray RWTexture3D
+        `),
+        // 純量與向量/矩陣型別：float、float3、float4x4、min16uint2 ...
+        typePattern: /^(bool|int|uint|dword|half|float|double|min16float|min10float|min16int|min12int|min16uint)([1-4](x[1-4])?)?$/,
+        // 系統 semantic：SV_Position、SV_Target0 ...
+        metaPattern: /^SV_\w+$/,
+        lineComment: '//',
+        blockComment: ['/*', '*/'],
+        quotes: ['"'],
+        preprocessor: true,
+    },
+    python: {
+        keywords: words(`
+            False None True and as assert async await break case class continue def del elif else except finally
+            for from global if import in is lambda match nonlocal not or pass raise return self try while with yield
+        `),
+        types: words('bool bytes dict float int list object set str tuple type'),
+        lineComment: '#',
+        quotes: ['"""', "'''", '"', "'"],
+        multilineQuotes: ['"""', "'''"],
+        decorators: true,
+    },
+    json: {
+        keywords: words('true false null'),
+        quotes: ['"'],
+        properties: true,
+    },
+};
+
+const EXTENSIONS: Record<string, Language> = {
+    ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+    js: 'typescript', jsx: 'typescript', mjs: 'typescript', cjs: 'typescript',
+    c: 'cpp', h: 'cpp', cc: 'cpp', cpp: 'cpp', cxx: 'cpp', hh: 'cpp', hpp: 'cpp', hxx: 'cpp', inl: 'cpp',
+    hlsl: 'hlsl', hlsli: 'hlsl', fx: 'hlsl', fxh: 'hlsl',
+    py: 'python', pyi: 'python',
+    json: 'json', jsonc: 'json',
+    md: 'markdown', markdown: 'markdown',
+};
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bB][01_]+|(?:\d[\d_]*\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)[uUlLfFnhH]*/y;
+
+/**
+ * 依副檔名決定語言，不支援時回傳 null
+ */
+export function detectLanguage(filePath: string): Language | null {
+    const dot = filePath.lastIndexOf('.');
+    if (dot === -1 || dot < filePath.lastIndexOf('/')) return null;
+    return EXTENSIONS[filePath.slice(dot + 1).toLowerCase()] ?? null;
+}
+
+/**
+ * 將一行程式碼切成 token
+ * state 為前一行結束時的狀態，回傳這一行結束時的狀態
+ */
+export function highlightLine(
+    line: string,
+    language: Language,
+    state: HighlightState = {}
+): { tokens: Token[]; state: HighlightState } {
+    return language === 'markdown'
+        ? highlightMarkdown(line, state)
+        : highlightCode(line, SPECS[language], state);
+}
+
+function highlightCode(line: string, spec: LanguageSpec, state: HighlightState): { tokens: Token[]; state: HighlightState } {
+    const tokens = new TokenList();
+    let i = 0;
+
+    // 延續前一行的區塊註解或多行字串
+    if (state.blockComment && spec.blockComment) {
+        const end = line.indexOf(spec.blockComment[1]);
+        if (end === -1) {
+            tokens.push('comment', line);
+            return { tokens: tokens.list, state };
+        }
+        i = end + spec.blockComment[1].length;
+        tokens.push('comment', line.slice(0, i));
+    } else if (state.openQuote) {
+        const end = findStringEnd(line, 0, state.openQuote);
+        if (end === -1) {
+            tokens.push('string', line);
+            return { tokens: tokens.list, state };
+        }
+        i = end;
+        tokens.push('string', line.slice(0, i));
+    }
+
+    // 前置處理器（#include、#define ...）
+    if (i === 0 && spec.preprocessor && line.trimStart().startsWith('#')) {
+        const comment = spec.lineComment ? line.indexOf(spec.lineComment) : -1;
+        tokens.push('meta', comment === -1 ? line : line.slice(0, comment));
+        if (comment !== -1) tokens.push('comment', line.slice(comment));
+        return { tokens: tokens.list, state: {} };
+    }
+
+    while (i < line.length) {
+        // 單行註解
+        if (spec.lineComment && line.startsWith(spec.lineComment, i)) {
+            tokens.push('comment', line.slice(i));
+            return { tokens: tokens.list, state: {} };
+        }
+
+        // 區塊註解
+        if (spec.blockComment && line.startsWith(spec.blockComment[0], i)) {
+            const end = line.indexOf(spec.blockComment[1], i + spec.blockComment[0].length);
+            if (end === -1) {
+                tokens.push('comment', line.slice(i));
+                return { tokens: tokens.list, state: { blockComment: true } };
+            }
+            const next = end + spec.blockComment[1].length;
+            tokens.push('comment', line.slice(i, next));
+            i = next;
+            continue;
+        }
+
+        // 字串
+        const quote = spec.quotes.find(q => line.startsWith(q, i));
+        if (quote) {
+            const end = findStringEnd(line, i + quote.length, quote);
+            if (end === -1) {
+                tokens.push('string', line.slice(i));
+                const multiline = spec.multilineQuotes?.includes(quote);
+                return { tokens: tokens.list, state: multiline ? { openQuote: quote } : {} };
+            }
+            const text = line.slice(i, end);
+            tokens.push(spec.properties && /^\s*:/.test(line.slice(end)) ? 'property' : 'string', text);
+            i = end;
+            continue;
+        }
+
+        const ch = line[i]!;
+
+        // Decorator
+        if (spec.decorators && ch === '@') {
+            IDENTIFIER.lastIndex = i + 1;
+            const match = IDENTIFIER.exec(line);
+            if (match) {
+                tokens.push('meta', '@' + match[0]);
+                i += 1 + match[0].length;
+                continue;
+            }
+        }
+
+        // 數字（不可緊接在識別字之後）
+        if (/[\d.]/.test(ch) && !/[\w$]/.test(line[i - 1] ?? '')) {
+            NUMBER.lastIndex = i;
+            const match = NUMBER.exec(line);
+            if (match && match[0] !== '.') {
+                tokens.push('number', match[0]);
+                i += match[0].length;
+                continue;
+            }
+        }
+
+        // 識別字
+        IDENTIFIER.lastIndex = i;
+        const match = /[A-Za-z_$]/.test(ch) ? IDENTIFIER.exec(line) : null;
+        if (match) {
+            const word = match[0];
+            tokens.push(classifyWord(word, spec), word);
+            i += word.length;
+            continue;
+        }
+
+        tokens.push('plain', ch);
+        i++;
+    }
+
+    return { tokens: tokens.list, state: {} };
+}
+
+function classifyWord(word: string, spec: LanguageSpec): TokenKind {
+    if (spec.keywords.has(word)) return 'keyword';
+    if (spec.types?.has(word) || spec.typePattern?.test(word)) return 'type';
+    if (spec.metaPattern?.test(word)) return 'meta';
+    return 'plain';
+}
+
+// 找到字串結尾（回傳結尾引號之後的位置），未結束時回傳 -1
+function findStringEnd(line: string, from: number, quote: string): number {
+    for (let i = from; i < line.length; i++) {
+        if (line[i] === '\\') {
+            i++;
+            continue;
+        }
+        if (line.startsWith(quote, i)) return i + quote.length;
+    }
+    return -1;
+}
+
+function highlightMarkdown(line: string, state: HighlightState): { tokens: Token[]; state: HighlightState } {
+    const tokens = new TokenList();
+
+    // ``` 程式碼區塊
+    if (/^\s*(```|~~~)/.test(line)) {
+        tokens.push('meta', line);
+        return { tokens: tokens.list, state: state.fence ? {} : { fence: true } };
+    }
+    if (state.fence) {
+        tokens.push('string', line);
+        return { tokens: tokens.list, state };
+    }
+
+    if (/^\s{0,3}#{1,6}(\s|$)/.test(line)) {
+        tokens.push('heading', line);
+        return { tokens: tokens.list, state: {} };
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+        tokens.push('comment', line);
+        return { tokens: tokens.list, state: {} };
+    }
+
+    // 清單符號
+    const bullet = /^\s*(?:[-*+]|\d+[.)])\s/.exec(line);
+    let rest = line;
+    if (bullet) {
+        tokens.push('keyword', bullet[0]);
+        rest = line.slice(bullet[0].length);
+    }
+
+    // 行內：`code`、**粗體**、_斜體_、[文字](網址)
+    const INLINE = /(`+)(.+?)\1|(\*\*|__)(.+?)\3|(\*|_)(?!\s)(.+?)\5|\[([^\]]*)\]\(([^)]*)\)/g;
+    let last = 0;
+    for (const match of rest.matchAll(INLINE)) {
+        tokens.push('plain', rest.slice(last, match.index));
+        if (match[1]) {
+            tokens.push('string', match[0]);
+        } else if (match[3] || match[5]) {
+            tokens.push('emphasis', match[0]);
+        } else {
+            tokens.push('plain', `[${match[7]}]`);
+            tokens.push('meta', `(${match[8]})`);
+        }
+        last = match.index + match[0].length;
+    }
+    tokens.push('plain', rest.slice(last));
+
+    return { tokens: tokens.list, state: {} };
+}
+
+// 合併相鄰同類 token
+class TokenList {
+    readonly list: Token[] = [];
+
+    push(kind: TokenKind, text: string): void {
+        if (text === '') return;
+        const prev = this.list[this.list.length - 1];
+        if (prev && prev.kind === kind) {
+            prev.text += text;
+        } else {
+            this.list.push({ kind, text });
+        }
+    }
+}
@@ -0,0 +1,116 @@
+import type { Key } from 'ink';
+import { DEFAULT_KEYS, type ActionId, type KeyOverrides } from '../config/keys.js';
+
+export type { ActionId } from '../config/keys.js';
+
+export type ActionCategory = 'Navigation' | 'Selection' | 'View' | 'Modes' | 'Export' | 'General';
+
+export type ActionDefinition = {
+    id: ActionId;
+    category: ActionCategory;
+    description: string;   // 說明面板中的文字
+    hint?: string;         // footer 中的短標籤（沒有時不顯示在 footer）
+};
+
+// 動作登錄表：說明面板、命令面板、footer 提示與按鍵處理都由此產生（預設按鍵見 config/keys.ts）
+// 順序即說明面板的顯示順序
+export const ACTIONS: ActionDefinition[] = [
+    { id: 'up', category: 'Navigation', description: 'Move up (previous hunk when the preview is focused)' },
+    { id: 'down', category: 'Navigation', description: 'Move down (next hunk when the preview is focused)' },
+    { id: 'pageUp', category: 'Navigation', description: 'Scroll the preview up' },
+    { id: 'pageDown', category: 'Navigation', description: 'Scroll the preview down' },
+    { id: 'home', category: 'Navigation', description: 'Jump to the first item (top of the preview when focused)' },
+    { id: 'end', category: 'Navigation', description: 'Jump to the last item (end of the preview when focused)' },
+    { id: 'switchFocus', category: 'Navigation', description: 'Switch focus between the file list and the preview' },
+
+    { id: 'toggleSelect', category: 'Selection', description: 'Select the file, group, commit or focused hunk', hint: 'Select' },
+    { id: 'selectAll', category: 'Selection', description: 'Select all files in the group (all commits in log mode)', hint: 'All' },
+    { id: 'toggleDirectory', category: 'Selection', description: 'Expand or collapse a directory or submodule (tree view)', hint: 'Toggle' },
+
+    { id: 'toggleViewMode', category: 'View', description: 'Toggle tree view (flat / tree file list)', hint: 'Mode' },
+    { id: 'toggleLayout', category: 'View', description: 'Toggle unified / side-by-side diff' },
+    { id: 'cycleConflictView', category: 'View', description: 'Cycle the conflict preview (diff / base / ours / theirs)' },
+    { id: 'toggleSubmoduleDiff', category: 'View', description: 'Toggle submodule file diffs / commit pointer' },
+    { id: 'toggleWordDiff', category: 'View', description: 'Toggle word-diff exports' },
+    { id: 'diffOptions', category: 'View', description: 'Open the diff options panel' },
+
+    { id: 'logMode', category: 'Modes', description: 'Toggle commit log mode', hint: 'Log' },
+    { id: 'stashMode', category: 'Modes', description: 'Toggle stash mode', hint: 'Stash' },
+    { id: 'compareBase', category: 'Modes', description: 'Compare against a base ref (PR diff)', hint: 'Base' },
+    { id: 'endCompare', category: 'Modes', description: 'Leave compare mode', hint: 'EndCompare' },
+
+    { id: 'exportCurrent', category: 'Export', description: 'Export the current file, commit or stash', hint: 'Export' },
+    { id: 'copyCurrent', category: 'Export', description: 'Copy the current file, commit or stash to the clipboard', hint: 'Copy' },
+    { id: 'exportSelected', category: 'Export', description: 'Export the selection to a chosen path', hint: 'ExportTo' },
+    { id: 'exportOverview', category: 'Export', description: 'Export the file overview to the export directory', hint: 'Overview' },
+    { id: 'exportOverviewTo', category: 'Export', description: 'Export the file overview to a chosen path', hint: 'OverviewTo' },
+    { id: 'exportCodeDump', category: 'Export', description: 'Dump the codebase', hint: 'CodeDump' },
+    { id: 'exportConflicts', category: 'Export', description: 'Export the conflict bundle' },
+
+    { id: 'refresh', category: 'General', description: 'Reload files, commits and stashes' },
+    { id: 'commandPalette', category: 'General', description: 'Open the command palette', hint: 'Commands' },
+    { id: 'help', category: 'General', description: 'Show this help', hint: 'Help' },
+    { id: 'quit', category: 'General', description: 'Quit', hint: 'Quit' },
+];
+
+export type Keymap = {
+    actionFor: (key: string) => ActionId | undefined;
+    keysFor: (action: ActionId) => string[];
+};
+
+/**
+ * ink 的按鍵事件轉為按鍵名稱（與 normalizeKey 的結果相同），無法表示時回傳 null
+ */
+export function keyFromInput(input: string, key: Key): string | null {
+    if (key.upArrow) return 'up';
+    if (key.downArrow) return 'down';
+    if (key.leftArrow) return 'left';
+    if (key.rightArrow) return 'right';
+    if (key.pageUp) return 'pageup';
+    if (key.pageDown) return 'pagedown';
+    if (key.home) return 'home';
+    if (key.end) return 'end';
+    if (key.tab) return 'tab';
+    if (key.return) return 'enter';
+    if (key.escape) return 'escape';
+    if (key.backspace) return 'backspace';
+    if (key.delete) return 'delete';
+    if (key.meta) return null;
+    if (key.ctrl) return /^[a-z]$/.test(input) ? `ctrl+${input}` : null;
+    if (input === ' ') return 'space';
+    return input.length === 1 ? input : null;
+}
+
+/**
+ * 顯示用的按鍵名稱（例如 "ctrl+p" → "Ctrl-P"、"up" → "↑"）
+ */
+export function formatKey(key: string): string {
+    const labels: Record<string, string> = {
+        up: '↑', down: '↓', left: '←', right: '→',
+        pageup: 'PgUp', pagedown: 'PgDn', home: 'Home', end: 'End',
+        tab: 'Tab', enter: 'Enter', space: 'Space', backspace: 'Backspace', delete: 'Delete',
+    };
+    if (key.startsWith('ctrl+')) return `Ctrl-${key.slice(5).toUpperCase()}`;
+    return labels[key] ?? key;
+}
+
+/**
+ * 建立按鍵對照（覆寫取代該動作的所有預設按鍵）
+ * 衝突應在載入設定時回報；這裡若仍有衝突，以登錄表中較前面的動作為準
+ */
+export function createKeymap(overrides: KeyOverrides = {}): Keymap {
+    const keysByAction = new Map<ActionId, string[]>();
+    const actionsByKey = new Map<string, ActionId>();
+    for (const action of ACTIONS) {
+        const keys = overrides[action.id] ?? DEFAULT_KEYS[action.id];
+        keysByAction.set(action.id, keys);
+        for (const key of keys) {
+            if (!actionsByKey.has(key)) actionsByKey.set(key, action.id);
+        }
+    }
+
+    return {
+        actionFor: key => actionsByKey.get(key),
+        keysFor: action => keysByAction.get(action) ?? [],
+    };
+}
@@ -0,0 +1,46 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { filterCommands, fuzzyMatch, type PaletteCommand } from './palette.js';
+
+describe('fuzzyMatch', () => {
+    test('matches characters in order, ignoring case and spaces', () => {
+        assert.deepEqual(fuzzyMatch('ExP', 'export')?.positions, [0, 1, 2]);
+        assert.deepEqual(fuzzyMatch('e d', 'Export code dump')?.positions, [0, 9]);
+        assert.equal(fuzzyMatch('px', 'export'), null);
+        assert.equal(fuzzyMatch('exports', 'export'), null);
+    });
+
+    test('matches everything with an empty query', () => {
+        assert.deepEqual(fuzzyMatch('  ', 'anything'), { score: 0, positions: [] });
+    });
+
+    test('scores consecutive and word-start matches higher', () => {
+        const score = (query: string, text: string) => fuzzyMatch(query, text)?.score ?? -Infinity;
+        assert.ok(score('diff', 'Diff options') > score('diff', 'Toggle word diff'));
+        assert.ok(score('m', 'Log mode') > score('m', 'Compare base'));
+        assert.ok(score('re', 'Export selected files') > score('re', 'Export current file'));
+    });
+});
+
+describe('filterCommands', () => {
+    const command = (title: string): PaletteCommand => ({ id: title, title, run: () => {} });
+    const commands = ['Export current file', 'Export selected files', 'Refresh', 'Toggle layout', 'Quit'].map(command);
+    const titles = (query: string) => filterCommands(commands, query).map(match => match.command.title);
+
+    test('keeps the original order without a query', () => {
+        assert.deepEqual(titles(''), commands.map(c => c.title));
+    });
+
+    test('drops non-matching commands and sorts by score', () => {
+        assert.deepEqual(titles('lay'), ['Toggle layout']);
+        assert.deepEqual(titles('re'), ['Refresh', 'Export selected files', 'Export current file']);
+    });
+
+    test('keeps the original order for equal scores', () => {
+        assert.deepEqual(titles('export'), ['Export current file', 'Export selected files']);
+    });
+
+    test('returns the matched positions for highlighting', () => {
+        assert.deepEqual(filterCommands(commands, 'qt')[0]?.positions, [0, 3]);
+    });
+});
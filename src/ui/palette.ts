@@ -0,0 +1,53 @@
+import type { ActionId } from './keymap.js';
+
+// 命令面板中的命令
+export type PaletteCommand = {
+    id: string;
+    title: string;
+    action?: ActionId;    // 綁定按鍵的動作（顯示目前的按鍵）
+    prompt?: boolean;     // 執行後會開啟路徑輸入
+    run: () => void;
+};
+
+export type PaletteMatch = {
+    command: PaletteCommand;
+    positions: number[];  // 標題中符合的字元位置（高亮用）
+};
+
+/**
+ * 模糊比對：query 的字元依序出現在 text 中即符合（不分大小寫），不符合時回傳 null
+ * 分數越高越好：連續符合、單字開頭符合加分，越晚開始符合扣分
+ */
+export function fuzzyMatch(query: string, text: string): { score: number; positions: number[] } | null {
+    const needle = query.toLowerCase().replace(/\s+/g, '');
+    const haystack = text.toLowerCase();
+    if (needle === '') return { score: 0, positions: [] };
+
+    const positions: number[] = [];
+    let score = 0;
+    let from = 0;
+    for (const char of needle) {
+        const index = haystack.indexOf(char, from);
+        if (index === -1) return null;
+
+        const previous = positions[positions.length - 1];
+        if (previous !== undefined && index === previous + 1) score += 5;
+        if (index === 0 || /[\s(/-]/.test(text[index - 1]!)) score += 3;
+        score -= previous === undefined ? index * 0.1 : (index - previous - 1) * 0.1;
+
+        positions.push(index);
+        from = index + 1;
+    }
+    return { score, positions };
+}
+
+/**
+ * 依 query 過濾並排序命令（分數相同時保持原本順序）
+ */
+export function filterCommands(commands: PaletteCommand[], query: string): PaletteMatch[] {
+    return commands
+        .map((command, order) => ({ command, order, match: fuzzyMatch(query, command.title) }))
+        .filter((item): item is typeof item & { match: NonNullable<typeof item.match> } => item.match !== null)
+        .sort((a, b) => b.match.score - a.match.score || a.order - b.order)
+        .map(({ command, match }) => ({ command, positions: match.positions }));
+}